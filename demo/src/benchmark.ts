@@ -0,0 +1,161 @@
+// Benchmark for flatListPostprocessorPlugin: compares incremental postprocessing (the default)
+// to rescanning the whole document on every transaction, on a large generated document.
+// Also measures all of the editor's plugins together (including flatListCollapsePlugin's decorations).
+// Run the demo with `npm start` and open /benchmark.html.
+
+import { Editor, type JSONContent } from "@tiptap/core";
+import Document from "@tiptap/extension-document";
+import HardBreak from "@tiptap/extension-hard-break";
+import Paragraph from "@tiptap/extension-paragraph";
+import Text from "@tiptap/extension-text";
+import { EditorState, Plugin, type Transaction } from "@tiptap/pm/state";
+import {
+  FlatListContinuation,
+  FlatListCore,
+  FlatListOrdered,
+  FlatListTask,
+  FlatListUnordered,
+} from "../../src/";
+import {
+  createPostprocessorTransaction,
+  flatListPostprocessorPlugin,
+  Postprocessor,
+} from "../../src/internal/postprocessor-plugin";
+
+const blockCount = 5000;
+const iterations = 200;
+
+/**
+ * Generates an outline-like document: sections of a paragraph followed by 49 list items
+ * of mixed types and indents.
+ */
+function generateDocument(): JSONContent {
+  const content: JSONContent[] = [];
+  for (let i = 0; i < blockCount; i++) {
+    const text = [{ type: "text", text: `Block ${i}` }];
+    const j = i % 50;
+    if (j === 0) {
+      content.push({ type: "paragraph", content: text });
+    } else {
+      content.push({
+        type:
+          j % 7 === 0
+            ? "flatListItemTask"
+            : j % 3 === 0
+              ? "flatListItemUnordered"
+              : "flatListItemOrdered",
+        attrs: { indent: (j - 1) % 4 },
+        content: text,
+      });
+    }
+  }
+  return { type: "doc", content };
+}
+
+/**
+ * Like flatListPostprocessorPlugin, but processes the whole document on every transaction
+ * that changes it, for comparison.
+ */
+function fullPostprocessorPlugin(): Plugin {
+  return new Plugin({
+    appendTransaction(transactions, _oldState, newState) {
+      if (!transactions.some((tr) => tr.docChanged)) return null;
+      const processor = new Postprocessor("clamp", null, Infinity);
+      const doc = newState.doc;
+      processor.processChildren(doc.content, 0, 0, doc.childCount);
+      return createPostprocessorTransaction(processor, newState);
+    },
+  });
+}
+
+/** Returns the position of the index-th top-level block. */
+function blockPos(state: EditorState, index: number): number {
+  let pos = 0;
+  for (let i = 0; i < index; i++) pos += state.doc.child(i).nodeSize;
+  return pos;
+}
+
+// The middle section's paragraph and its fifth list item (indent 0, after an item with indent 3).
+const paragraphIndex = blockCount / 2;
+const itemIndex = paragraphIndex + 5;
+
+const scenarios: Record<
+  string,
+  (state: EditorState, iteration: number) => Transaction
+> = {
+  "Type in a paragraph": (state) =>
+    state.tr.insertText("a", blockPos(state, paragraphIndex) + 1),
+  "Type in a list item": (state) =>
+    state.tr.insertText("a", blockPos(state, itemIndex) + 1),
+  "Indent/dedent a list item": (state, iteration) =>
+    state.tr.setNodeAttribute(
+      blockPos(state, itemIndex),
+      "indent",
+      iteration % 2 === 0 ? 1 : 0,
+    ),
+  "Insert/delete a list item": (state, iteration) => {
+    const pos = blockPos(state, itemIndex);
+    return iteration % 2 === 0
+      ? state.tr.insert(
+          pos,
+          state.schema.nodes.flatListItemOrdered.create(
+            { indent: 0 },
+            state.schema.text("New"),
+          ),
+        )
+      : state.tr.delete(pos, pos + state.doc.child(itemIndex).nodeSize);
+  },
+};
+
+function runBenchmark(): string[] {
+  const editor = new Editor({
+    element: document.createElement("div"),
+    extensions: [
+      Document,
+      Paragraph,
+      Text,
+      HardBreak,
+      FlatListCore,
+      FlatListOrdered,
+      FlatListUnordered,
+      FlatListTask,
+      FlatListContinuation,
+    ],
+  });
+  // Sets the lists' counters.
+  editor.commands.setContent(generateDocument());
+  const doc = editor.state.doc;
+  const editorPlugins = editor.state.plugins;
+  editor.destroy();
+
+  const configurations: [string, readonly Plugin[]][] = [
+    ["full", [fullPostprocessorPlugin()]],
+    ["incremental", [flatListPostprocessorPlugin()]],
+    ["all plugins", editorPlugins],
+  ];
+
+  const lines = [`${blockCount} blocks, ${iterations} transactions each`, ""];
+  for (const [name, scenario] of Object.entries(scenarios)) {
+    const times: string[] = [];
+    for (const [configuration, plugins] of configurations) {
+      let state = EditorState.create({ doc, plugins });
+      // Let flatListPostprocessorPlugin do its one-time full pass before measuring.
+      state = state.applyTransaction(state.tr).state;
+      let total = 0;
+      for (let i = 0; i < iterations; i++) {
+        const tr = scenario(state, i);
+        const start = performance.now();
+        state = state.applyTransaction(tr).state;
+        total += performance.now() - start;
+      }
+      times.push(`${configuration} ${(total / iterations).toFixed(3)} ms`);
+    }
+    lines.push(`${name}: ${times.join(", ")}`);
+  }
+  return lines;
+}
+
+// Let the page render before blocking it.
+setTimeout(() => {
+  document.getElementById("results")!.textContent = runBenchmark().join("\n");
+});
@@ -6,9 +6,11 @@ import HardBreak from "@tiptap/extension-hard-break";
 import Paragraph from "@tiptap/extension-paragraph";
 import Text from "@tiptap/extension-text";
 import {
+  FlatListContinuation,
   FlatListCore,
   FlatListOrdered,
   FlatListTask,
+  FlatListTextSerializer,
   FlatListUnordered,
   JoinListDOMSerializer,
 } from "../../src/";
@@ -22,15 +24,17 @@ const editor = new Editor({
     Paragraph,
     Text,
     HardBreak,
-    FlatListCore,
+    FlatListCore.configure({ dragHandle: true }),
     FlatListOrdered,
     FlatListUnordered,
     FlatListTask,
+    FlatListContinuation,
   ],
   content: "<p>Hello World!</p>",
 });
 
 JoinListDOMSerializer.setClipboardSerializer(editor);
+FlatListTextSerializer.setClipboardTextSerializer(editor);
 
 // To get HTML that uses normal HTML lists, instead of editor.getHTML(), call:
 // JoinListDOMSerializer.getHTML(editor);
@@ -47,3 +51,5 @@ document.getElementById("indent")!.onclick = () =>
   editor.chain().focus().indentFlatListItem().run();
 document.getElementById("dedent")!.onclick = () =>
   editor.chain().focus().dedentFlatListItem().run();
+document.getElementById("collapse")!.onclick = () =>
+  editor.chain().focus().toggleFlatListItemCollapsed().run();
@@ -0,0 +1,84 @@
+import { Node } from "@tiptap/core";
+import { continuationNodeName } from "./internal/extension-names";
+import { getWrapperAttrs, indentLength } from "./internal/styling";
+import { getMaxIndent, parseIntegerAttr } from "./internal/utils";
+import { FlatListRenderOptions } from "./styling";
+
+/**
+ * Flat list extension that adds continuation paragraphs: extra paragraphs of a list item
+ * (analog of the second `<p>` in `<li><p>...</p><p>...</p></li>`).
+ *
+ * A continuation is a top-level block like a flat list item. It belongs to the previous list item
+ * with the same indent and is rendered aligned with that item's content.
+ * Pressing Backspace at the start of a list item turns it into a continuation.
+ *
+ * If you use this extension, you must also use the FlatListCore extension.
+ */
+export const FlatListContinuation = Node.create<FlatListRenderOptions>({
+  name: continuationNodeName,
+
+  group: "block",
+
+  content: "inline*",
+
+  priority: 210,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+      styling: "inline",
+    };
+  },
+
+  addAttributes() {
+    return {
+      /**
+       * The indent of the list item that this paragraph belongs to.
+       */
+      indent: {
+        default: 0,
+        rendered: false,
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        // Our rendered HTML, plus LIs' extra paragraphs (marked by replaceParagraphsWithBreaks).
+        tag: "p[data-list-continuation]",
+        // Take precedence over the paragraph rule.
+        priority: 60,
+        getAttrs: (element) => {
+          return {
+            indent: Math.min(
+              parseIntegerAttr(element.getAttribute("data-list-indent")) ?? 0,
+              getMaxIndent(this.editor),
+            ),
+          };
+        },
+      },
+    ];
+  },
+
+  renderHTML({ node }) {
+    return [
+      "p",
+      // Align with the list item's content: its list's margin-left plus the default padding-left.
+      // If you add other attrs here that shouldn't appear in copied lists,
+      // modify joinListElements to remove them too.
+      getWrapperAttrs(
+        this.options,
+        "continuation",
+        node.attrs.indent,
+        `margin-bottom: 0; margin-left: ${indentLength(node.attrs.indent, 40)};`,
+        {
+          // Used to recognize continuations in parseHTML and joinListElements.
+          "data-list-continuation": "",
+          "data-list-indent": node.attrs.indent,
+        },
+      ),
+      0,
+    ];
+  },
+});
@@ -1,10 +1,41 @@
-import { Editor, Extension, getNodeType, isNodeActive } from "@tiptap/core";
+import {
+  CommandProps,
+  Editor,
+  Extension,
+  getNodeType,
+  isNodeActive,
+} from "@tiptap/core";
 import { setBlockType } from "@tiptap/pm/commands";
-import { Node as ProseMirrorNode } from "@tiptap/pm/model";
-import { taskNodeName } from "./internal/extension-names";
+import { Node as ProseMirrorNode, ResolvedPos } from "@tiptap/pm/model";
+import { TextSelection } from "@tiptap/pm/state";
+import { flatListCollapsePlugin } from "./internal/collapse-plugin";
+import { flatListDragPlugin } from "./internal/drag-plugin";
+import { FlatListOrderedOptions } from "./extension-ordered";
+import {
+  continuationNodeName,
+  orderedNodeName,
+  taskNodeName,
+} from "./internal/extension-names";
+import { getOrderedCounter } from "./internal/numbering-plugin";
 import { flatListPastePlugin } from "./internal/paste-plugin";
-import { flatListPostprocessorPlugin } from "./internal/postprocessor-plugin";
-import { getFlatListNodeName, isFlatListNode, ListType } from "./list-type";
+import {
+  flatListPostprocessorPlugin,
+  IndentRepairMode,
+} from "./internal/postprocessor-plugin";
+import {
+  clampIndents,
+  getCollapsedAncestorIndex,
+  getDescendantsEndIndex,
+} from "./internal/utils";
+import {
+  getFlatListNodeName,
+  getListBehavior,
+  getListTypeFromNodeName,
+  isFlatListContinuation,
+  isFlatListNode,
+  ListType,
+} from "./list-type";
+import { FlatListRenderOptions } from "./styling";
 
 // Based on https://github.com/ocavue/prosemirror-flat-list
 // and https://github.com/ueberdosis/tiptap/blob/main/packages/extension-heading/src/heading.ts
@@ -54,10 +85,108 @@ declare module "@tiptap/core" {
        * This will also dedent all "descendants" of the last affected item (subsequent list items with greater indent).
        */
       dedentFlatListItem: (canConvert?: boolean) => ReturnType;
+      /**
+       * Toggles whether the flat list item(s) overlapping the current selection are collapsed (folded).
+       * A collapsed item hides its "descendants" (subsequent list items with greater indent) in the editor.
+       *
+       * Only items with descendants (or that are already collapsed) are affected.
+       * If any of them is collapsed, they are all expanded; else they are all collapsed.
+       *
+       * @param collapsed If provided, collapse (true) or expand (false) instead of toggling.
+       * @example editor.commands.toggleFlatListItemCollapsed()
+       */
+      toggleFlatListItemCollapsed: (collapsed?: boolean) => ReturnType;
+      /**
+       * Moves the flat list item(s) overlapping the current selection, together with their "descendants"
+       * (subsequent list items with greater indent), above the previous sibling item and its descendants.
+       *
+       * Not applicable if there is no previous sibling item (e.g., the first child of a "parent" item).
+       */
+      moveFlatListItemUp: () => ReturnType;
+      /**
+       * Moves the flat list item(s) overlapping the current selection, together with their "descendants"
+       * (subsequent list items with greater indent), below the next sibling item and its descendants.
+       *
+       * Not applicable if there is no next sibling item (e.g., the last child of a "parent" item).
+       */
+      moveFlatListItemDown: () => ReturnType;
+      /**
+       * Restarts the numbering at the first ordered flat list item overlapping the current selection,
+       * so that it is numbered `start` and subsequent items continue from there.
+       *
+       * @param start The new number. Default: 1.
+       * @example editor.commands.restartFlatListNumbering(5)
+       */
+      restartFlatListNumbering: (start?: number) => ReturnType;
+      /**
+       * Makes the ordered flat list item(s) overlapping the current selection continue the numbering
+       * of their list, undoing restartFlatListNumbering.
+       */
+      continueFlatListNumbering: () => ReturnType;
+      /**
+       * Sorts the sibling list items of the flat list item at the start of the current selection:
+       * the items with the same indent and "parent" (previous list item with smaller indent)
+       * in its contiguous list. Each item moves together with its "descendants"
+       * (subsequent list items with greater indent).
+       *
+       * The sort is stable. If the list starts at a custom number (`start` attr), it keeps that number.
+       *
+       * @param options.by What to sort by: "text" (text content), "checked" (unchecked first),
+       * "counter" (ordered list number), or a comparator function on list item nodes. Default: "text".
+       * @param options.direction "asc" or "desc". Default: "asc".
+       * @example editor.commands.sortFlatListItems({ by: "checked" })
+       */
+      sortFlatListItems: (options?: SortFlatListItemsOptions) => ReturnType;
     };
   }
 }
 
+/**
+ * Options for the sortFlatListItems command.
+ */
+export interface SortFlatListItemsOptions {
+  by?:
+    | "text"
+    | "checked"
+    | "counter"
+    | ((a: ProseMirrorNode, b: ProseMirrorNode) => number);
+  direction?: "asc" | "desc";
+}
+
+export interface FlatListCoreOptions {
+  /**
+   * How to repair list items that violate indent \<= previous indent + 1, which can arise
+   * from concurrent edits in a collaborative setting (e.g., one user deletes a parent item
+   * while another indents its child).
+   * - "clamp": Set each such item's indent to previous indent + 1. Its descendants are left as-is,
+   * except that they may be clamped in turn.
+   * - "shift": Shift each such item and the subsequent list items with at least its indent
+   * (its descendants and later siblings) by the same amount, preserving the subtree's shape.
+   *
+   * Default: "clamp".
+   */
+  indentRepair: IndentRepairMode;
+  /**
+   * Whether to show a drag handle next to each list item. Dragging it moves the item together with
+   * its "descendants" (subsequent list items with greater indent). When dropped, the item's indent
+   * is set like when pasting: it matches the indent of the previous block (or 0 if that block
+   * is not a list item), and its descendants keep their relative indents.
+   *
+   * Default: false.
+   */
+  dragHandle: boolean;
+  /**
+   * The maximum indent of list items, or null for no limit.
+   *
+   * Commands never indent list items past it, and deeper content (pasted, dropped, parsed from HTML,
+   * or from concurrent edits) is flattened: items deeper than maxIndent get indent maxIndent,
+   * becoming siblings of their deepest allowed ancestor.
+   *
+   * Default: null.
+   */
+  maxIndent: number | null;
+}
+
 /**
  * Required core extension for flat lists.
  *
@@ -65,12 +194,22 @@ declare module "@tiptap/core" {
  * but does not the flat list items themselves.
  * For those, also add the extensions FlatListOrdered, FlatListUnordered, and/or FlatListTask.
  */
-export const FlatListCore = Extension.create({
+export const FlatListCore = Extension.create<FlatListCoreOptions>({
   name: "flatListCore",
 
   priority: 200,
 
+  addOptions() {
+    return {
+      indentRepair: "clamp",
+      dragHandle: false,
+      maxIndent: null,
+    };
+  },
+
   addCommands() {
+    const maxIndent = this.options.maxIndent ?? Infinity;
+
     return {
       setFlatListItem:
         (listType, attributes = {}) =>
@@ -81,6 +220,13 @@ export const FlatListCore = Extension.create({
           // Copy of commands.setNode(getFlatListNodeName(listType), attributes)
           // except we pass attrsFn to setBlockType instead of attributes.
 
+          if (attributes.indent !== undefined) {
+            attributes = {
+              ...attributes,
+              indent: Math.min(attributes.indent, maxIndent),
+            };
+          }
+
           const attrsFn = (oldNode: ProseMirrorNode): Record<string, any> => {
             if (isFlatListNode(oldNode)) {
               const newAttrs = { ...attributes };
@@ -169,7 +315,7 @@ export const FlatListCore = Extension.create({
               if (isFlatListNode(node)) {
                 const newIndent = (node.attrs["indent"] ?? 0) + 1;
                 // Only indent if it's at most one more than the previous list item
-                // (accounting for tr's prior changes).
+                // (accounting for tr's prior changes), and at most maxIndent.
                 const resolvedInTr = tr.doc.resolve(pos);
                 const prevSiblingInTr = resolvedInTr.parent.childBefore(
                   resolvedInTr.parentOffset,
@@ -178,7 +324,10 @@ export const FlatListCore = Extension.create({
                   prevSiblingInTr && isFlatListNode(prevSiblingInTr)
                     ? (prevSiblingInTr.attrs["indent"] ?? 0)
                     : -1;
-                if (newIndent <= prevSiblingIndent + 1) {
+                if (
+                  newIndent <= prevSiblingIndent + 1 &&
+                  newIndent <= maxIndent
+                ) {
                   applicable = true;
                   tr.setNodeAttribute(pos, "indent", newIndent);
                 }
@@ -226,7 +375,8 @@ export const FlatListCore = Extension.create({
 
           if (!applicable) return false;
 
-          // Also dedent all "descendants" of the last affected item (subsequent list items with greater indent).
+          // Also dedent all "descendants" of the last affected item (subsequent list items with greater indent,
+          // plus continuations with at least its indent).
           const $lastDedented = tr.doc.resolve(lastDedented!.pos);
           let subsequentItemPos =
             lastDedented!.pos + lastDedented!.node.nodeSize;
@@ -236,11 +386,19 @@ export const FlatListCore = Extension.create({
             index++
           ) {
             const subsequentItem = $lastDedented.parent.child(index);
-            if (!isFlatListNode(subsequentItem)) break;
             const indent = subsequentItem.attrs["indent"] ?? 0;
-            if (indent <= lastDedented!.oldIndent) break;
+            if (isFlatListContinuation(subsequentItem)) {
+              if (indent < lastDedented!.oldIndent) break;
+            } else {
+              if (!isFlatListNode(subsequentItem)) break;
+              if (indent <= lastDedented!.oldIndent) break;
+            }
 
-            tr.setNodeAttribute(subsequentItemPos, "indent", indent - 1);
+            tr.setNodeAttribute(
+              subsequentItemPos,
+              "indent",
+              Math.max(indent - 1, 0),
+            );
 
             subsequentItemPos += subsequentItem.nodeSize;
           }
@@ -248,6 +406,91 @@ export const FlatListCore = Extension.create({
           if (dispatch) dispatch(tr);
           return true;
         },
+
+      toggleFlatListItemCollapsed:
+        (collapsed) =>
+        ({ state, tr, dispatch }) => {
+          const items: { pos: number; node: ProseMirrorNode }[] = [];
+          for (const range of state.selection.ranges) {
+            const {
+              $from: { pos: from },
+              $to: { pos: to },
+            } = range;
+            state.doc.nodesBetween(from, to, (node, pos, parent, index) => {
+              if (
+                isFlatListNode(node) &&
+                parent &&
+                (node.attrs.collapsed ||
+                  getDescendantsEndIndex(parent, index) > index + 1)
+              ) {
+                items.push({ pos, node });
+              }
+            });
+          }
+
+          if (items.length === 0) return false;
+
+          const newCollapsed =
+            collapsed ?? !items.some(({ node }) => node.attrs.collapsed);
+          for (const { pos } of items) {
+            tr.setNodeAttribute(pos, "collapsed", newCollapsed);
+          }
+          if (dispatch) dispatch(tr);
+          return true;
+        },
+
+      moveFlatListItemUp: () => (props) => moveFlatListItem(props, "up"),
+
+      moveFlatListItemDown: () => (props) => moveFlatListItem(props, "down"),
+
+      restartFlatListNumbering:
+        (start = 1) =>
+        ({ state, tr, dispatch }) => {
+          let firstPos: number | null = null;
+          for (const range of state.selection.ranges) {
+            const {
+              $from: { pos: from },
+              $to: { pos: to },
+            } = range;
+            state.doc.nodesBetween(from, to, (node, pos) => {
+              if (getListBehavior(node) === "ordered" && firstPos === null) {
+                firstPos = pos;
+              }
+            });
+          }
+
+          if (firstPos === null) return false;
+          tr.setNodeAttribute(firstPos, "start", start);
+          if (dispatch) dispatch(tr);
+          return true;
+        },
+
+      continueFlatListNumbering:
+        () =>
+        ({ state, tr, dispatch }) => {
+          let applicable = false;
+          for (const range of state.selection.ranges) {
+            const {
+              $from: { pos: from },
+              $to: { pos: to },
+            } = range;
+            state.doc.nodesBetween(from, to, (node, pos) => {
+              if (
+                getListBehavior(node) === "ordered" &&
+                node.attrs.start !== null
+              ) {
+                applicable = true;
+                tr.setNodeAttribute(pos, "start", null);
+              }
+            });
+          }
+
+          if (!applicable) return false;
+          if (dispatch) dispatch(tr);
+          return true;
+        },
+      sortFlatListItems: (options) => (props) =>
+        sortFlatListItems(props, options),
     };
   },
 
@@ -255,17 +498,312 @@ export const FlatListCore = Extension.create({
     return {
       Enter: () => handleEnter(this.editor),
       Backspace: () => handleBackspace(this.editor),
-      Delete: () => handleDelete(this.editor),
+      Delete: () =>
+        handleDeleteBeforeHidden(this.editor) || handleDelete(this.editor),
       Tab: () => this.editor.commands.indentFlatListItem(),
       "Shift-Tab": () => this.editor.commands.dedentFlatListItem(),
+      "Alt-Shift-ArrowUp": () => this.editor.commands.moveFlatListItemUp(),
+      "Alt-Shift-ArrowDown": () => this.editor.commands.moveFlatListItemDown(),
     };
   },
 
   addProseMirrorPlugins() {
-    return [flatListPastePlugin(), flatListPostprocessorPlugin()];
+    const maxIndent = this.options.maxIndent ?? Infinity;
+    // The FlatListOrdered options that affect numbering, if that extension is used.
+    const orderedOptions = this.editor.extensionManager.extensions.find(
+      (extension) => extension.name === orderedNodeName,
+    )?.options as FlatListOrderedOptions | undefined;
+    const formatNumber =
+      orderedOptions?.numbering === "hierarchical"
+        ? orderedOptions.formatNumber
+        : null;
+    // Style our widgets like the list items (assuming that they share a styling mode).
+    const styling =
+      (
+        this.editor.extensionManager.extensions.find(
+          (extension) => getListTypeFromNodeName(extension.name) !== null,
+        )?.options as Partial<FlatListRenderOptions> | undefined
+      )?.styling ?? "inline";
+
+    return [
+      flatListPastePlugin(maxIndent),
+      flatListPostprocessorPlugin(
+        this.options.indentRepair,
+        formatNumber,
+        maxIndent,
+        orderedOptions?.counters !== "decorations",
+      ),
+      flatListCollapsePlugin(styling),
+      ...(this.options.dragHandle
+        ? [flatListDragPlugin(maxIndent, styling)]
+        : []),
+    ];
   },
 });
 
+/**
+ * Implementation of moveFlatListItemUp and moveFlatListItemDown.
+ *
+ * The moved "block" consists of the list items overlapping the selection plus their descendants.
+ * It is swapped with the neighboring sibling item (at the block's smallest indent) and its descendants.
+ * Afterwards, indents in the affected list are clamped to keep indent \<= previous indent + 1.
+ */
+function moveFlatListItem(
+  { state, tr, dispatch }: CommandProps,
+  direction: "up" | "down",
+): boolean {
+  const { $from, $to, anchor, head } = state.selection;
+  const isListBlock = (node: ProseMirrorNode) =>
+    isFlatListNode(node) || isFlatListContinuation(node);
+  if (!isListBlock($from.parent) || !isListBlock($to.parent)) {
+    return false;
+  }
+  // The list items must have the same parent (the doc or a container node).
+  if ($from.depth !== $to.depth || $from.node(-1) !== $to.node(-1)) {
+    return false;
+  }
+
+  const depth = $from.depth - 1;
+  const parent = $from.node(depth);
+  let firstIndex = $from.index(depth);
+  const lastIndex = $to.index(depth);
+
+  // A continuation moves with its list item (the previous item with the same or smaller indent).
+  if (isFlatListContinuation($from.parent)) {
+    const indent = $from.parent.attrs.indent ?? 0;
+    while (firstIndex > 0) {
+      const item = parent.child(--firstIndex);
+      if (isFlatListNode(item) && (item.attrs.indent ?? 0) <= indent) break;
+      if (!isListBlock(item)) return false;
+    }
+    if (!isFlatListNode(parent.child(firstIndex))) return false;
+  }
+
+  // Find the block to move and its smallest indent.
+  let blockEnd = firstIndex + 1;
+  let baseIndent = Infinity;
+  for (let index = firstIndex; index <= lastIndex; index++) {
+    const item = parent.child(index);
+    if (isFlatListContinuation(item)) {
+      // Part of the list item before it, unless it belongs to an item outside the block.
+      if ((item.attrs.indent ?? 0) < baseIndent) return false;
+      continue;
+    }
+    if (!isFlatListNode(item)) return false;
+    baseIndent = Math.min(baseIndent, item.attrs.indent ?? 0);
+    blockEnd = Math.max(blockEnd, getDescendantsEndIndex(parent, index));
+  }
+
+  // Find the sibling item and its descendants.
+  let siblingStart: number;
+  let siblingEnd: number;
+  if (direction === "up") {
+    siblingEnd = firstIndex;
+    siblingStart = firstIndex - 1;
+    for (; siblingStart >= 0; siblingStart--) {
+      const item = parent.child(siblingStart);
+      if (!isListBlock(item)) return false;
+      const indent = item.attrs.indent ?? 0;
+      // Don't move past the parent item (or its continuations).
+      if (indent < baseIndent) return false;
+      // Skip over the sibling's continuations.
+      if (indent === baseIndent && isFlatListNode(item)) break;
+    }
+    if (siblingStart < 0) return false;
+  } else {
+    siblingStart = blockEnd;
+    if (siblingStart >= parent.childCount) return false;
+    const item = parent.child(siblingStart);
+    if (!isFlatListNode(item) || (item.attrs.indent ?? 0) !== baseIndent) {
+      return false;
+    }
+    siblingEnd = getDescendantsEndIndex(parent, siblingStart);
+  }
+
+  if (dispatch) {
+    const blockFrom = $from.posAtIndex(firstIndex, depth);
+    const blockTo = $from.posAtIndex(blockEnd, depth);
+    const content = state.doc.slice(blockFrom, blockTo).content;
+
+    // Move the block, shifting the selection along with it.
+    let shift: number;
+    if (direction === "up") {
+      const target = $from.posAtIndex(siblingStart, depth);
+      tr.delete(blockFrom, blockTo).insert(target, content);
+      shift = target - blockFrom;
+    } else {
+      const target = $from.posAtIndex(siblingEnd, depth);
+      tr.insert(target, content).delete(blockFrom, blockTo);
+      shift = target - blockTo;
+    }
+    tr.setSelection(TextSelection.create(tr.doc, anchor + shift, head + shift));
+
+    // Clamp indents in the affected part of the list.
+    const regionStart = Math.min(firstIndex, siblingStart);
+    const regionEnd = Math.max(blockEnd, siblingEnd);
+    const newParent = tr.doc.resolve(blockFrom).node(depth);
+    const indents: number[] = [];
+    const continuations: boolean[] = [];
+    for (let index = regionStart; index < regionEnd; index++) {
+      const item = newParent.child(index);
+      indents.push(item.attrs.indent ?? 0);
+      continuations.push(isFlatListContinuation(item));
+    }
+    const prevItem = regionStart > 0 ? newParent.child(regionStart - 1) : null;
+    const prevIndent =
+      prevItem && isListBlock(prevItem) ? (prevItem.attrs.indent ?? 0) : -1;
+    const newIndents = clampIndents(
+      indents,
+      Math.min(indents[0], prevIndent + 1),
+      prevIndent,
+      Infinity,
+      continuations,
+    );
+    let pos = $from.posAtIndex(regionStart, depth);
+    for (let i = 0; i < indents.length; i++) {
+      if (newIndents[i] !== indents[i]) {
+        tr.setNodeAttribute(pos, "indent", newIndents[i]);
+      }
+      pos += newParent.child(regionStart + i).nodeSize;
+    }
+
+    dispatch(tr);
+  }
+  return true;
+}
+
+/**
+ * Implementation of sortFlatListItems.
+ */
+function sortFlatListItems(
+  { state, tr, dispatch }: CommandProps,
+  { by = "text", direction = "asc" }: SortFlatListItemsOptions = {},
+): boolean {
+  const { $from, anchor, head } = state.selection;
+  if (!isFlatListNode($from.parent)) return false;
+
+  const depth = $from.depth - 1;
+  const parent = $from.node(depth);
+  const index = $from.index(depth);
+  const indent = $from.parent.attrs.indent ?? 0;
+
+  // Find the range of the siblings and their descendants.
+  const isInRange = (item: ProseMirrorNode) =>
+    (isFlatListNode(item) || isFlatListContinuation(item)) &&
+    (item.attrs.indent ?? 0) >= indent;
+  let rangeStart = index;
+  while (rangeStart > 0 && isInRange(parent.child(rangeStart - 1))) {
+    rangeStart--;
+  }
+  // Skip stray continuations that don't follow a list item.
+  while (isFlatListContinuation(parent.child(rangeStart))) rangeStart++;
+  let rangeEnd = index + 1;
+  while (rangeEnd < parent.childCount && isInRange(parent.child(rangeEnd))) {
+    rangeEnd++;
+  }
+
+  // Split the range into siblings, each with its descendants.
+  const siblings: SortSibling[] = [];
+  let pos = $from.posAtIndex(rangeStart, depth);
+  for (let i = rangeStart; i < rangeEnd; ) {
+    const end = getDescendantsEndIndex(parent, i);
+    const node = parent.child(i);
+    siblings.push({
+      start: i,
+      end,
+      node,
+      counter:
+        getListBehavior(node) === "ordered"
+          ? getOrderedCounter(state, pos, node)
+          : null,
+    });
+    for (; i < end; i++) pos += parent.child(i).nodeSize;
+  }
+
+  const compare = getSortComparator(by);
+  const sign = direction === "desc" ? -1 : 1;
+  const sorted = [...siblings].sort((a, b) => sign * compare(a, b));
+
+  if (dispatch) {
+    const rangeFrom = $from.posAtIndex(rangeStart, depth);
+    const rangeTo = $from.posAtIndex(rangeEnd, depth);
+
+    // Build the sorted content, remembering how far each sibling moves.
+    const content: ProseMirrorNode[] = [];
+    const shifts: { from: number; to: number; shift: number }[] = [];
+    let newPos = rangeFrom;
+    for (const sibling of sorted) {
+      const from = $from.posAtIndex(sibling.start, depth);
+      const to = $from.posAtIndex(sibling.end, depth);
+      shifts.push({ from, to, shift: newPos - from });
+      for (let i = sibling.start; i < sibling.end; i++) {
+        content.push(parent.child(i));
+      }
+      newPos += to - from;
+    }
+    tr.replaceWith(rangeFrom, rangeTo, content);
+
+    // Keep the list's custom start number (if any) at the first sibling.
+    const firstStart = siblings[0].node.attrs.start ?? null;
+    let siblingPos = rangeFrom;
+    sorted.forEach((sibling, i) => {
+      if (getListBehavior(sibling.node) === "ordered") {
+        const start = i === 0 ? firstStart : null;
+        if (sibling.node.attrs.start !== start) {
+          tr.setNodeAttribute(siblingPos, "start", start);
+        }
+      }
+      siblingPos += shifts[i].to - shifts[i].from;
+    });
+
+    // Move the selection along with its items.
+    const mapPos = (pos: number) => {
+      const moved = shifts.find(({ from, to }) => from <= pos && pos < to);
+      return moved ? pos + moved.shift : pos;
+    };
+    tr.setSelection(TextSelection.create(tr.doc, mapPos(anchor), mapPos(head)));
+
+    dispatch(tr);
+  }
+  return true;
+}
+
+/**
+ * A sibling list item sorted by sortFlatListItems, with its descendants [start + 1, end).
+ */
+interface SortSibling {
+  start: number;
+  end: number;
+  node: ProseMirrorNode;
+  /** For ordered list items, the item's number (see getOrderedCounter). Else null. */
+  counter: number | null;
+}
+
+function getSortComparator(
+  by: NonNullable<SortFlatListItemsOptions["by"]>,
+): (a: SortSibling, b: SortSibling) => number {
+  switch (by) {
+    case "text":
+      return (a, b) =>
+        a.node.textContent.localeCompare(b.node.textContent, undefined, {
+          numeric: true,
+        });
+    case "checked":
+      return (a, b) =>
+        Number(!!a.node.attrs.checked) - Number(!!b.node.attrs.checked);
+    case "counter":
+      // Non-ordered items sort after ordered ones.
+      return (a, b) =>
+        compareNumbers(a.counter ?? Infinity, b.counter ?? Infinity);
+    default:
+      return (a, b) => by(a.node, b.node);
+  }
+}
+
+function compareNumbers(a: number, b: number): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
 /**
  * Handle pressing enter when the cursor is at the start/end of a flat list item:
  * insert a similar flat list item before/after (like splitting), or dedent
@@ -287,10 +825,30 @@ function handleEnter(editor: Editor): boolean {
 
   // Create a new list item before/after the cursor with the same attrs
   // (like splitting, but splitBlock doesn't do it because our content is inline instead of block).
-  const newItem = { type: $to.parent.type.name, attrs: $to.parent.attrs };
+  const newItem = {
+    type: $to.parent.type.name,
+    attrs: { ...$to.parent.attrs, collapsed: false, start: null },
+  };
   let cmds = editor.chain();
   if ($to.parentOffset === 0) {
+    if ($to.parent.attrs.start != null) {
+      // Move the restarted numbering to the new (first) item.
+      newItem.attrs.start = $to.parent.attrs.start;
+      cmds = cmds.command(({ tr }) => {
+        tr.setNodeAttribute(to - 1, "start", null);
+        return true;
+      });
+    }
     cmds = cmds.insertContentAt(to - 1, newItem).setTextSelection(to + 2);
+  } else if ($to.parent.attrs.collapsed) {
+    // Insert the new item after the hidden descendants, so that they stay with the collapsed item.
+    const afterDescendants = $to.posAtIndex(
+      getDescendantsEndIndex($to.node(-1), $to.index(-1)),
+      $to.depth - 1,
+    );
+    cmds = cmds
+      .insertContentAt(afterDescendants, newItem)
+      .setTextSelection(afterDescendants + 1);
   } else {
     cmds = cmds.insertContent(newItem);
   }
@@ -315,16 +873,18 @@ function handleBackspace(editor: Editor): boolean {
   return (
     editor.commands.undoInputRule() ||
     handleBackspace1(editor) ||
+    handleBackspaceContinuation(editor) ||
+    handleBackspaceAfterHidden(editor) ||
     handleBackspace2(editor)
   );
 }
 
 /**
  * Handle pressing backspace when the cursor is at the start of a flat list item:
- * convert to a paragraph or dedent.
+ * convert to a continuation of the previous list item, convert to a paragraph, or dedent.
  *
- * Note: When applied to an indented list item, Notion and GDocs will instead
- * convert to a paragraph at the same indent level. However, we don't have indented paragraphs.
+ * Note: When applied to a list item after another list item, Notion and GDocs will instead
+ * convert to a paragraph at the same indent level. We do the same if FlatListContinuation is installed.
  */
 function handleBackspace1(editor: Editor): boolean {
   const { $to, from, to } = editor.state.selection;
@@ -334,10 +894,67 @@ function handleBackspace1(editor: Editor): boolean {
   if ($to.parentOffset !== 0) return false;
 
   // Cursor at the start of a flat list item.
+  const continuationType = editor.schema.nodes[continuationNodeName];
+  const indexInGrandparent = $to.index(-1);
+  if (continuationType && indexInGrandparent > 0) {
+    const prevNode = $to.node(-1).child(indexInGrandparent - 1);
+    if (isFlatListNode(prevNode) || isFlatListContinuation(prevNode)) {
+      // Convert to a continuation, clamping its indent to the previous block's.
+      const indent = Math.min(
+        $to.parent.attrs.indent ?? 0,
+        prevNode.attrs.indent ?? 0,
+      );
+      return editor.commands.command(({ tr }) => {
+        tr.setNodeMarkup($to.before(), continuationType, { indent });
+        return true;
+      });
+    }
+  }
+
   // Dedent, possibly converting to paragraph.
   return editor.commands.dedentFlatListItem(true);
 }
 
+/**
+ * Handle pressing backspace when the cursor is at the start of a continuation:
+ * convert to a paragraph (like the second Backspace on a former list item in GDocs).
+ */
+function handleBackspaceContinuation(editor: Editor): boolean {
+  const { $to, from, to } = editor.state.selection;
+
+  if (from !== to) return false;
+  if (!isFlatListContinuation($to.parent)) return false;
+  if ($to.parentOffset !== 0) return false;
+
+  return editor.commands.command(({ tr, state }) => {
+    tr.setNodeMarkup($to.before(), state.schema.nodes["paragraph"]);
+    return true;
+  });
+}
+
+/**
+ * Handle pressing backspace when the cursor is at the start of a textblock after a hidden
+ * (collapsed) list item: join the textblock into the visible collapsed item,
+ * instead of into the hidden item.
+ */
+function handleBackspaceAfterHidden(editor: Editor): boolean {
+  const { $to, from, to } = editor.state.selection;
+
+  if (from !== to) return false;
+  if ($to.parentOffset !== 0) return false;
+  if ($to.depth < 1) return false;
+
+  const indexInGrandparent = $to.index(-1);
+  if (indexInGrandparent === 0) return false;
+  const collapsedIndex = getCollapsedAncestorIndex(
+    $to.node(-1),
+    indexInGrandparent - 1,
+  );
+  if (collapsedIndex === null) return false;
+
+  return joinAcrossHidden(editor, $to, collapsedIndex, indexInGrandparent);
+}
+
 /**
  * Handle pressing backspace when the cursor is at the start of a node after an empty
  * flat list item: merge that node into the list item, keeping the list item
@@ -385,3 +1002,58 @@ function handleDelete(editor: Editor): boolean {
   // Merge that node into the list item, keeping the list item.
   return editor.commands.deleteRange({ from: from, to: from + 2 });
 }
+
+/**
+ * Handle pressing delete when the cursor is at the end of a collapsed flat list item
+ * with hidden descendants: join the next visible block into the item,
+ * instead of a hidden item.
+ */
+function handleDeleteBeforeHidden(editor: Editor): boolean {
+  const { $to, from, to } = editor.state.selection;
+
+  if (from !== to) return false;
+  if (!isFlatListNode($to.parent) || !$to.parent.attrs.collapsed) return false;
+  if ($to.parentOffset !== $to.parent.content.size) return false;
+
+  const indexInGrandparent = $to.index(-1);
+  const grandparent = $to.node(-1);
+  const endIndex = getDescendantsEndIndex(grandparent, indexInGrandparent);
+  if (endIndex === indexInGrandparent + 1) return false;
+
+  // Cursor is at the end of a collapsed item with hidden descendants.
+  // Join the next visible block, or do nothing if there is none.
+  if (endIndex < grandparent.childCount) {
+    joinAcrossHidden(editor, $to, indexInGrandparent, endIndex);
+  }
+  return true;
+}
+
+/**
+ * Moves the content of the textblock at `blockIndex` to the end of the textblock at `targetIndex`,
+ * deleting the former and leaving any hidden items between them in place.
+ *
+ * Both indices refer to children of the cursor's grandparent ($pos.node(-1)).
+ */
+function joinAcrossHidden(
+  editor: Editor,
+  $pos: ResolvedPos,
+  targetIndex: number,
+  blockIndex: number,
+): boolean {
+  const grandparent = $pos.node(-1);
+  const target = grandparent.child(targetIndex);
+  const block = grandparent.child(blockIndex);
+  if (!target.isTextblock || !block.isTextblock) return false;
+
+  const targetEnd =
+    $pos.posAtIndex(targetIndex, $pos.depth - 1) + target.nodeSize - 1;
+  const blockPos = $pos.posAtIndex(blockIndex, $pos.depth - 1);
+  return editor.commands.command(({ tr, dispatch }) => {
+    if (dispatch) {
+      tr.delete(blockPos, blockPos + block.nodeSize);
+      tr.insert(targetEnd, block.content);
+      tr.setSelection(TextSelection.create(tr.doc, targetEnd));
+    }
+    return true;
+  });
+}
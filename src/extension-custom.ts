@@ -0,0 +1,263 @@
+import { Node } from "@tiptap/core";
+import { Node as PMNode } from "@tiptap/pm/model";
+import { getWrapperAttrs, indentLength } from "./internal/styling";
+import {
+  computeCollapsed,
+  computeContinuationIndent,
+  computeIndent,
+  computeStart,
+  cssString,
+  flatListTypeInputRule,
+  getMaxIndent,
+  hasNoContentBeforeChildList,
+  replaceParagraphsWithBreaks,
+} from "./internal/utils";
+import { FlatListTypeInfo, registerFlatListType } from "./list-type";
+import { FlatListRenderOptions } from "./styling";
+
+/**
+ * Definition of a custom kind of flat list item, for createFlatListItem.
+ */
+export interface FlatListItemDefinition {
+  /**
+   * The kind's ListType, used in commands (e.g. `toggleFlatListItem("toggle")`),
+   * getFlatListContext, flatListToTree, and the wrapper's `flat-list-<listType>` class.
+   * Must not be a built-in ListType.
+   */
+  listType: string;
+  /**
+   * The node type name.
+   *
+   * Default: "flatListItem" followed by the capitalized listType, e.g. "flatListItemToggle".
+   */
+  nodeName?: string;
+  /**
+   * The built-in ListType whose behavior the list items share (see FlatListTypeInfo.behavior):
+   * - "ordered": Numbered list items, rendered as `<ol><li>`.
+   * - "unordered": Plain list items, rendered as `<ul><li>`.
+   *
+   * Default: "unordered".
+   */
+  behavior?: "ordered" | "unordered";
+  /**
+   * The default for the getListStyleType option: the CSS list-style-type of list items at the given indent,
+   * i.e. their marker (e.g. "lower-alpha", or a string like `'"? "'`).
+   *
+   * Default: always "decimal" for "ordered" behavior, else "disc".
+   */
+  getListStyleType?: (indent: number) => string;
+  /**
+   * Returns the marker that FlatListTextSerializer writes before the list item's text (see FlatListTypeInfo.textMarker).
+   * In Markdown, list items use their behavior's marker.
+   */
+  textMarker?: (node: PMNode) => string;
+  /**
+   * Whether an LI from other HTML (e.g. pasted or loaded content) is a list item of this kind.
+   *
+   * Regardless, LIs in our rendered HTML (whose OL/UL has this kind's `data-list-type` attr) are recognized.
+   */
+  matchHTML?: (li: HTMLElement) => boolean;
+  /**
+   * Input rule that turns a block into a list item of this kind, e.g. `/^[ \t]*>\s$/` for "> ".
+   * Like the built-in input rules, leading spaces or tabs in the match indent the list item.
+   */
+  inputRule?: RegExp;
+  /**
+   * Keyboard shortcut that toggles a list item of this kind, e.g. "Mod-Shift-0".
+   */
+  keyboardShortcut?: string;
+}
+
+export interface FlatListItemOptions extends FlatListRenderOptions {
+  /**
+   * The CSS list-style-type to use for list items at the given indent.
+   * Only used for "inline" styling.
+   *
+   * Default: the definition's getListStyleType.
+   */
+  getListStyleType: (indent: number) => string;
+}
+
+/**
+ * Creates a flat list extension that adds a custom kind of flat list item,
+ * e.g. a "toggle" item, a "question" item, or an ordered item with letters.
+ *
+ * The kind is registered (see registerFlatListType), so that our commands, plugins and serializers
+ * treat its nodes as flat list items of the given ListType. For example, `toggleFlatListItem(listType)`
+ * toggles them, JoinListDOMSerializer nests them into their own lists, and if the behavior is "ordered",
+ * our plugins number them.
+ *
+ * If you use this extension, you must also use the FlatListCore extension.
+ *
+ * @example const FlatListLettered = createFlatListItem({ listType: "lettered", behavior: "ordered", getListStyleType: () => "lower-alpha" });
+ */
+export function createFlatListItem(definition: FlatListItemDefinition) {
+  const {
+    listType,
+    nodeName = `flatListItem${listType.charAt(0).toUpperCase()}${listType.slice(1)}`,
+    behavior = "unordered",
+  } = definition;
+  const info: FlatListTypeInfo = {
+    listType,
+    nodeName,
+    behavior,
+    textMarker: definition.textMarker,
+  };
+  registerFlatListType(info);
+  const isOrdered = behavior === "ordered";
+
+  return Node.create<FlatListItemOptions>({
+    name: nodeName,
+
+    group: "block",
+
+    content: "inline*",
+
+    priority: 210,
+
+    defining: true,
+
+    addOptions() {
+      return {
+        getListStyleType:
+          definition.getListStyleType ??
+          ((_indent) => (isOrdered ? "decimal" : "disc")),
+        HTMLAttributes: {},
+        styling: "inline",
+      };
+    },
+
+    addAttributes() {
+      return {
+        indent: {
+          default: 0,
+          rendered: false,
+        },
+        // Like FlatListOrdered's attrs.
+        ...(isOrdered
+          ? {
+              counter: {
+                default: 1,
+                rendered: false,
+              },
+              number: {
+                default: null,
+                keepOnSplit: false,
+                rendered: false,
+              },
+              start: {
+                default: null,
+                keepOnSplit: false,
+                rendered: false,
+              },
+            }
+          : {}),
+        collapsed: {
+          default: false,
+          keepOnSplit: false,
+          rendered: false,
+        },
+        _isTempPropped: {
+          default: false,
+          rendered: false,
+        },
+      };
+    },
+
+    parseHTML() {
+      return [
+        {
+          tag: "li",
+          // Take precedence over the built-in list types' LI rules.
+          priority: 60,
+          getAttrs: (element) => {
+            if (
+              element.parentElement?.getAttribute("data-list-type") !==
+                listType &&
+              !definition.matchHTML?.(element)
+            ) {
+              return false;
+            }
+            return {
+              indent: computeIndent(element, getMaxIndent(this.editor)),
+              collapsed: computeCollapsed(element),
+              ...(isOrdered ? { start: computeStart(element) } : {}),
+              _isTempPropped: hasNoContentBeforeChildList(element),
+            };
+          },
+          contentElement: (element: HTMLElement) => {
+            replaceParagraphsWithBreaks(
+              element,
+              computeContinuationIndent(this.editor, element),
+            );
+            if (hasNoContentBeforeChildList(element)) {
+              // Like FlatListUnordered: prop up the LI with a temporary `&nbsp;`.
+              element.prepend(document.createTextNode("\u00A0"));
+            }
+            return element;
+          },
+        },
+      ];
+    },
+
+    renderHTML({ node }) {
+      const listStyleType =
+        isOrdered && node.attrs.number !== null
+          ? cssString(`${node.attrs.number} `)
+          : this.options.getListStyleType(node.attrs.indent ?? 0);
+      return [
+        isOrdered ? "ol" : "ul",
+        // If you add other attrs here that shouldn't appear in copied lists,
+        // modify joinListElements to remove them too.
+        getWrapperAttrs(
+          this.options,
+          listType,
+          node.attrs.indent,
+          `margin-bottom: 0; margin-left: ${indentLength(
+            node.attrs.indent,
+          )}; list-style-type: ${listStyleType};`,
+          {
+            // For parseHTML and joinListElements.
+            "data-list-type": listType,
+            start: isOrdered ? node.attrs.counter : null,
+          },
+        ),
+        [
+          "li",
+          {
+            // For computeIndent and joinListElements.
+            "data-list-indent": node.attrs.indent,
+            // For computeCollapsed.
+            "data-collapsed": node.attrs.collapsed ? "" : null,
+            // For computeStart and joinListElements.
+            "data-list-start": isOrdered ? node.attrs.start : null,
+            // For joinListElements.
+            "data-list-number": isOrdered ? node.attrs.number : null,
+          },
+          0,
+        ],
+      ];
+    },
+
+    addKeyboardShortcuts() {
+      const { keyboardShortcut } = definition;
+      if (keyboardShortcut === undefined) return {};
+      return {
+        [keyboardShortcut]: () =>
+          this.editor.commands.toggleFlatListItem(listType),
+      };
+    },
+
+    addInputRules() {
+      const { inputRule } = definition;
+      if (inputRule === undefined) return [];
+      return [
+        flatListTypeInputRule({
+          find: inputRule,
+          type: this.type,
+          maxIndent: getMaxIndent(this.editor),
+        }),
+      ];
+    },
+  });
+}
@@ -1,19 +1,86 @@
 import { Node } from "@tiptap/core";
 import { orderedNodeName } from "./internal/extension-names";
+import { flatListNumberingPlugin } from "./internal/numbering-plugin";
 import {
+  computeMarkerStyle,
+  getMarkerListStyleType,
+  getOrderedListStyleType,
+  parseOrderedMarker,
+} from "./internal/ordered-marker";
+import { getWrapperAttrs, indentLength } from "./internal/styling";
+import {
+  computeCollapsed,
+  computeContinuationIndent,
   computeIndent,
+  computeStart,
+  continuesWordOrderedList,
   flatListTypeInputRule,
+  getMaxIndent,
   hasNoContentBeforeChildList,
+  parseWordListItem,
+  removeWordListMarker,
   replaceParagraphsWithBreaks,
 } from "./internal/utils";
+import { FlatListRenderOptions } from "./styling";
 
-export interface FlatListOrderedOptions {
+/**
+ * The marker style of an ordered list item, as typed in its input rule (e.g. "a. " or "iv) "):
+ * its numerals ("1" decimal, "a"/"A" alphabetic, "i"/"I" roman) followed by its delimiter.
+ */
+export type OrderedMarkerStyle =
+  | "1."
+  | "1)"
+  | "a."
+  | "a)"
+  | "A."
+  | "A)"
+  | "i."
+  | "i)"
+  | "I."
+  | "I)";
+
+export interface FlatListOrderedOptions extends FlatListRenderOptions {
+  /**
+   * The CSS list-style-type to use for list items at the given indent, with the given `markerStyle` attr
+   * (null unless typed otherwise). For a ")" delimiter, the item's counter is formatted like the returned
+   * list-style-type (if it is "decimal", "lower-alpha", "upper-alpha", "lower-roman" or "upper-roman")
+   * and followed by ")".
+   * Only used for "inline" styling.
+   *
+   * Default: the markerStyle's numerals, e.g. "lower-alpha" for "a)"; else "decimal".
+   */
+  getListStyleType: (
+    indent: number,
+    markerStyle: OrderedMarkerStyle | null,
+  ) => string;
+  /**
+   * The numbering mode:
+   * - "flat": Each list item shows its own counter, styled by getListStyleType (e.g. "1.", "a.").
+   * - "hierarchical": Each list item shows its full counter path formatted by formatNumber,
+   * i.e., the counters of its ordered ancestors followed by its own counter (e.g. "2.3.1").
+   *
+   * Default: "flat".
+   */
+  numbering: "flat" | "hierarchical";
   /**
-   * The CSS list-style-type to use for list items at the given indent.
+   * For "hierarchical" numbering, formats a list item's counter path into its marker label.
+   * The path contains the counters of the item's ordered ancestors (outermost first), then its own counter.
    *
-   * Default: always "decimal".
+   * Default: joins the path with ".", e.g. "1.1.2".
    */
-  getListStyleType: (indent: number) => string;
+  formatNumber: (path: number[]) => string;
+  /**
+   * Where list items' numbers are kept:
+   * - "attributes": Our plugins write each list item's number into its `counter` attr
+   * (and for "hierarchical" numbering, its `number` attr), so renumbering changes the document.
+   * - "decorations": Numbers are computed in plugin state and shown using node decorations, so
+   * renumbering (e.g. inserting a list item above) doesn't change the document.
+   * The `counter` and `number` attrs are not kept up-to-date; JoinListDOMSerializer and FlatListTextSerializer
+   * derive them when serializing the editor's content, and getFlatListContext reads them from the plugin state.
+   *
+   * Default: "attributes".
+   */
+  counters: "attributes" | "decorations";
 }
 
 /**
@@ -34,7 +101,13 @@ export const FlatListOrdered = Node.create<FlatListOrderedOptions>({
 
   addOptions() {
     return {
-      getListStyleType: (_indent) => "decimal",
+      getListStyleType: (_indent, markerStyle) =>
+        getMarkerListStyleType(markerStyle),
+      numbering: "flat",
+      formatNumber: (path) => path.join("."),
+      counters: "attributes",
+      HTMLAttributes: {},
+      styling: "inline",
     };
   },
 
@@ -48,6 +121,40 @@ export const FlatListOrdered = Node.create<FlatListOrderedOptions>({
         default: 1,
         rendered: false,
       },
+      /**
+       * For "hierarchical" numbering, the list item's formatted label (e.g. "2.3.1"),
+       * set by our plugins. Else null.
+       */
+      number: {
+        default: null,
+        keepOnSplit: false,
+        rendered: false,
+      },
+      /**
+       * The OrderedMarkerStyle typed for the list item, or null for the default ("1.").
+       */
+      markerStyle: {
+        default: null,
+        rendered: false,
+      },
+      /**
+       * If set, numbering restarts at this value for this list item.
+       * Else (null), the item continues the numbering of its list.
+       */
+      start: {
+        default: null,
+        keepOnSplit: false,
+        rendered: false,
+      },
+      /**
+       * Whether the list item is collapsed (folded), hiding its "descendants"
+       * (subsequent list items with greater indent) in the editor.
+       */
+      collapsed: {
+        default: false,
+        keepOnSplit: false,
+        rendered: false,
+      },
       /**
        * Internal attr used to indicate that the list item is being "propped up" by an &nbsp;
        * for help with parsing. It is temporary and will be removed shortly after parsing
@@ -70,7 +177,10 @@ export const FlatListOrdered = Node.create<FlatListOrderedOptions>({
         getAttrs: (element) => {
           if (element.parentElement?.tagName === "OL") {
             return {
-              indent: computeIndent(element),
+              indent: computeIndent(element, getMaxIndent(this.editor)),
+              collapsed: computeCollapsed(element),
+              start: computeStart(element),
+              markerStyle: computeMarkerStyle(element),
               _isTempPropped: hasNoContentBeforeChildList(element),
             };
           } else {
@@ -79,7 +189,10 @@ export const FlatListOrdered = Node.create<FlatListOrderedOptions>({
           }
         },
         contentElement: (element: HTMLElement) => {
-          replaceParagraphsWithBreaks(element);
+          replaceParagraphsWithBreaks(
+            element,
+            computeContinuationIndent(this.editor, element),
+          );
           if (hasNoContentBeforeChildList(element)) {
             // ProseMirror will ignore such an LI and only parse its child list.
             // Avoid this by propping up the LI with a temporary `&nbsp;`, indicated by _isTempPropped: true.
@@ -89,33 +202,81 @@ export const FlatListOrdered = Node.create<FlatListOrderedOptions>({
           return element;
         },
       },
+      {
+        // List item paragraphs pasted from Microsoft Word.
+        tag: 'p[style*="mso-list"]',
+        // Take precedence over the paragraph rule.
+        priority: 60,
+        getAttrs: (element) => {
+          const item = parseWordListItem(element);
+          if (item?.listType !== "ordered") return false;
+          const indent = Math.min(item.indent, getMaxIndent(this.editor));
+          // Like the input rule, keep the marker's style, and let a typed number other than 1
+          // (e.g. "7.") restart the numbering - unless the item just continues a Word list.
+          const marker = parseOrderedMarker(item.markerText.replace(/^\(/, ""));
+          const start =
+            marker === null ||
+            marker.value === 1 ||
+            continuesWordOrderedList(element, item.indent)
+              ? null
+              : marker.value;
+          return {
+            indent,
+            start,
+            markerStyle: marker?.markerStyle ?? null,
+          };
+        },
+        contentElement: removeWordListMarker,
+      },
     ];
   },
 
   renderHTML({ node }) {
-    const listStyleType = this.options.getListStyleType(node.attrs.indent ?? 0);
+    const markerStyle = node.attrs.markerStyle as OrderedMarkerStyle | null;
+    const listStyleType = getOrderedListStyleType(
+      this.options,
+      node.attrs,
+      node.attrs.counter,
+    );
     return [
       "ol",
-      {
-        start: node.attrs.counter,
-        // Apply styling inline since I'm not sure how to include a CSS class in a Tiptap extension.
-        // If you add other attrs here that shouldn't appear in copied lists,
-        // modify joinListElements to remove them too.
-        style: `margin-bottom: 0; margin-left: ${
-          20 * node.attrs.indent
-        }px; list-style-type: ${listStyleType};`,
-      },
+      // If you add other attrs here that shouldn't appear in copied lists,
+      // modify joinListElements to remove them too.
+      getWrapperAttrs(
+        this.options,
+        "ordered",
+        node.attrs.indent,
+        `margin-bottom: 0; margin-left: ${indentLength(
+          node.attrs.indent,
+        )}; list-style-type: ${listStyleType};`,
+        // The type attr shows the marker style's numerals in plain HTML.
+        { start: node.attrs.counter, type: markerStyle?.[0] ?? null },
+      ),
       [
         "li",
         {
           // For computeIndent and joinListElements.
           "data-list-indent": node.attrs.indent,
+          // For computeCollapsed.
+          "data-collapsed": node.attrs.collapsed ? "" : null,
+          // For computeStart and joinListElements.
+          "data-list-start": node.attrs.start,
+          // For joinListElements.
+          "data-list-number": node.attrs.number,
+          // For computeMarkerStyle and joinListElements.
+          "data-marker-style": markerStyle,
         },
         0,
       ],
     ];
   },
 
+  addProseMirrorPlugins() {
+    return this.options.counters === "decorations"
+      ? [flatListNumberingPlugin(this.options)]
+      : [];
+  },
+
   addKeyboardShortcuts() {
     return {
       "Mod-Shift-7": () => this.editor.commands.toggleFlatListItem("ordered"),
@@ -124,10 +285,20 @@ export const FlatListOrdered = Node.create<FlatListOrderedOptions>({
 
   addInputRules() {
     return [
-      // Convert "1. " to an ordered list item if not already.
+      // Convert "1. " to an ordered list item if not already, remembering the marker style of
+      // e.g. "a. ", "iv. " or "1) ". Other numbers (e.g. "7. " or "c. ") restart the numbering at that number.
       flatListTypeInputRule({
-        find: /^\s?(\d+)\.\s$/,
+        find: /^[ \t]*(\d+|[a-z]+|[A-Z]+)([.)])\s$/,
         type: this.type,
+        maxIndent: getMaxIndent(this.editor),
+        getAttributes: (match) => {
+          const marker = parseOrderedMarker(match[1] + match[2]);
+          if (!marker) return null;
+          return {
+            start: marker.value === 1 ? null : marker.value,
+            markerStyle: marker.markerStyle,
+          };
+        },
       }),
     ];
   },
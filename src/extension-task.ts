@@ -1,19 +1,63 @@
 import { Node } from "@tiptap/core";
 import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import type { Decoration } from "@tiptap/pm/view";
 import { taskNodeName } from "./internal/extension-names";
+import { getWrapperAttrs, indentLength } from "./internal/styling";
+import {
+  flatListIndeterminatePlugin,
+  indeterminateDecorationSpec,
+} from "./internal/indeterminate-plugin";
 import {
   computeChecked,
+  computeCollapsed,
+  computeContinuationIndent,
   computeIndent,
+  computeStatus,
   flatListTypeInputRule,
   getContentElement,
+  getDescendantsEndIndex,
+  getLeadingCheckbox,
+  getMaxIndent,
   hasNoContentBeforeChildList,
+  isTaskListItem,
+  parseWordListItem,
+  removeWordListMarker,
   replaceParagraphsWithBreaks,
 } from "./internal/utils";
+import { FlatListRenderOptions } from "./styling";
 
 // Based on https://github.com/ueberdosis/tiptap/blob/main/packages/extension-task-item/src/task-item.ts
 // In particular, its custom NodeView.
 
-export interface FlatListTaskOptions {
+/**
+ * A status that task items can have, e.g. "in-progress".
+ */
+export interface FlatListTaskStatus {
+  /**
+   * Unique name, stored in the task item's `status` attr and rendered as its LI's `data-status` attr
+   * (e.g. for CSS styling).
+   */
+  name: string;
+  /**
+   * The task item's `checked` attr when it has this status.
+   * This keeps the status compatible with code that only knows checked/unchecked (e.g. Markdown).
+   */
+  checked: boolean;
+  /**
+   * How to render the checkbox.
+   *
+   * Default: "checked" if `checked` is true, else "unchecked".
+   */
+  checkbox?: "checked" | "unchecked" | "indeterminate";
+  /**
+   * Human-readable label, used in the default checkbox aria-label.
+   *
+   * Default: `name`.
+   */
+  label?: string;
+}
+
+export interface FlatListTaskOptions extends FlatListRenderOptions {
   /**
    * Accessibility options for the task item.
    * @default {}
@@ -24,8 +68,36 @@ export interface FlatListTaskOptions {
    * }
    */
   a11y?: {
-    checkboxLabel?: (node: ProseMirrorNode, checked: boolean) => string;
+    checkboxLabel?: (
+      node: ProseMirrorNode,
+      checked: boolean,
+      status: FlatListTaskStatus | null,
+    ) => string;
   };
+  /**
+   * The statuses that task items cycle through when clicking their checkbox, in order.
+   *
+   * Default: null, for plain checked/unchecked task items (no `status` attr).
+   *
+   * @example
+   * ```js
+   * [
+   *   { name: "todo", checked: false },
+   *   { name: "in-progress", checked: false, checkbox: "indeterminate", label: "In progress" },
+   *   { name: "done", checked: true },
+   *   { name: "cancelled", checked: true, label: "Won't do" },
+   * ]
+   * ```
+   */
+  statuses: FlatListTaskStatus[] | null;
+  /**
+   * If true, checking or unchecking a task item (by clicking its checkbox) applies the change
+   * to its "descendant" task items (subsequent list items with greater indent).
+   * Also, task items whose descendant task items are partly checked render an indeterminate checkbox.
+   *
+   * Default: false.
+   */
+  propagateChecked: boolean;
 }
 
 /**
@@ -47,6 +119,10 @@ export const FlatListTask = Node.create<FlatListTaskOptions>({
   addOptions() {
     return {
       a11y: undefined,
+      statuses: null,
+      propagateChecked: false,
+      HTMLAttributes: {},
+      styling: "inline",
     };
   },
 
@@ -60,6 +136,23 @@ export const FlatListTask = Node.create<FlatListTaskOptions>({
         default: false,
         keepOnSplit: false,
       },
+      /**
+       * The name of the task item's status, if the statuses option is set. See getTaskStatus.
+       */
+      status: {
+        default: null,
+        keepOnSplit: false,
+        rendered: false,
+      },
+      /**
+       * Whether the list item is collapsed (folded), hiding its "descendants"
+       * (subsequent list items with greater indent) in the editor.
+       */
+      collapsed: {
+        default: false,
+        keepOnSplit: false,
+        rendered: false,
+      },
       /**
        * Internal attr used to indicate that the list item is being "propped up" by an &nbsp;
        * for help with parsing. It is temporary and will be removed shortly after parsing
@@ -80,27 +173,31 @@ export const FlatListTask = Node.create<FlatListTaskOptions>({
         // LI parsing priority: ordered > task > unordered.
         tag: "li",
         getAttrs: (element) => {
-          // Since there is not standard HTML for task lists, we only look for task lists rendered by ourselves.
-          // These are marked with data-task-list on the wrapping UL.
-          if (element.parentElement) {
-            const attrTaskList =
-              element.parentElement.getAttribute("data-task-list");
-            if (attrTaskList === "" || attrTaskList === "true") {
-              return {
-                indent: computeIndent(element),
-                checked: computeChecked(element),
-                _isTempPropped: hasNoContentBeforeChildList(
-                  getContentElement("task", element),
-                ),
-              };
-            }
+          // Since there is not standard HTML for task lists, we look for several formats:
+          // our own rendered HTML, Tiptap's, Google Docs', and LIs that start with a checkbox.
+          if (isTaskListItem(element)) {
+            return {
+              indent: computeIndent(element, getMaxIndent(this.editor)),
+              collapsed: computeCollapsed(element),
+              checked: computeChecked(element),
+              status: computeStatus(element),
+              _isTempPropped: hasNoContentBeforeChildList(
+                getContentElement("task", element),
+                true,
+              ),
+            };
           }
           // Fall through to unordered list (if installed).
           return false;
         },
         contentElement: (element: HTMLElement) => {
           const contentElement = getContentElement("task", element);
-          replaceParagraphsWithBreaks(contentElement);
+          // The checked state is stored in the checked attr instead.
+          getLeadingCheckbox(contentElement)?.remove();
+          replaceParagraphsWithBreaks(
+            contentElement,
+            computeContinuationIndent(this.editor, element),
+          );
           if (hasNoContentBeforeChildList(contentElement)) {
             // ProseMirror will ignore such an LI and only parse its child list.
             // Avoid this by propping up the LI with a temporary `&nbsp;`, indicated by _isTempPropped: true.
@@ -110,10 +207,27 @@ export const FlatListTask = Node.create<FlatListTaskOptions>({
           return contentElement;
         },
       },
+      {
+        // List item paragraphs pasted from Microsoft Word.
+        tag: 'p[style*="mso-list"]',
+        // Take precedence over the paragraph rule.
+        priority: 60,
+        getAttrs: (element) => {
+          const item = parseWordListItem(element);
+          if (item?.listType !== "task") return false;
+          return {
+            indent: Math.min(item.indent, getMaxIndent(this.editor)),
+            checked: item.checked,
+          };
+        },
+        contentElement: removeWordListMarker,
+      },
     ];
   },
 
   renderHTML({ node }) {
+    const inline = this.options.styling === "inline";
+    const status = getTaskStatus(this.options, node);
     // Note: This is only used for external HTML (getHTML and copying),
     // and it is further modified by joinListElements (especially copying, which replaces
     // the checkbox with plain text "[ ]" or "[x]").
@@ -121,10 +235,13 @@ export const FlatListTask = Node.create<FlatListTaskOptions>({
     // When changing: Keep renderHTML in sync with the node view's layout & styling!
     return [
       "ul",
-      {
-        "data-task-list": "",
-        style: `margin-bottom: 0; margin-left: ${20 * node.attrs.indent}px; list-style-type: none;`,
-      },
+      getWrapperAttrs(
+        this.options,
+        "task",
+        node.attrs.indent,
+        getTaskListStyle(node.attrs.indent),
+        { "data-task-list": "" },
+      ),
       // Layout is from https://github.com/ueberdosis/tiptap/blob/main/packages/extension-task-item/src/task-item.ts
       // Instead of using the flex-based example styles at https://tiptap.dev/docs/editor/extensions/nodes/task-item,
       // we use position: relative/absolute, to get the layout we want without letting the checkbox
@@ -134,26 +251,28 @@ export const FlatListTask = Node.create<FlatListTaskOptions>({
         {
           // For computeIndent and joinListElements.
           "data-list-indent": node.attrs.indent,
+          // For computeCollapsed.
+          "data-collapsed": node.attrs.collapsed ? "" : null,
           // For computeChecked.
           "data-checked": node.attrs.checked,
-          style: "position: relative;",
+          // For computeStatus.
+          "data-status": status?.name ?? null,
+          style: inline ? taskItemStyles.li : null,
         },
         [
           "label",
-          // Empirically, top: 0 makes the checkbox look centered.
-          // TODO: Find a general solution if this is only true for our specific line-height.
-          {
-            style:
-              "position: absolute; left: -20px; top: 0; user-select: none;",
-          },
+          { style: inline ? taskItemStyles.label : null },
           [
             "input",
             {
               type: "checkbox",
               // Prevent interaction since this is only for external HTML.
               disabled: true,
-              checked: node.attrs.checked ? "checked" : null,
-              ariaLabel: checkboxAriaLabel(this.options, node),
+              checked:
+                getCheckboxState(node, status, false) === "checked"
+                  ? "checked"
+                  : null,
+              ariaLabel: checkboxAriaLabel(this.options, node, status),
             },
           ],
           ["span"],
@@ -170,37 +289,51 @@ export const FlatListTask = Node.create<FlatListTaskOptions>({
     // The resulting HTML is the same as for renderHTML above except that the checkbox is enabled
     // and has cursor: pointer.
     // When changing: Keep renderHTML in sync with the node view's layout & styling!
-    return ({ node, HTMLAttributes, getPos, editor }) => {
+    return ({ node, HTMLAttributes, getPos, editor, decorations }) => {
       // Based on node view in https://github.com/ueberdosis/tiptap/blob/main/packages/extension-task-item/src/task-item.ts
 
       // Create HTML elements and assign attributes.
 
+      const inline = this.options.styling === "inline";
       const ul = document.createElement("ul");
-      ul.style.cssText = `margin-bottom: 0; margin-left: ${
-        20 * node.attrs.indent
-      }px; list-style-type: none;`;
-      Object.entries(HTMLAttributes).forEach(([key, value]) => {
-        ul.setAttribute(key, value);
-      });
+      const setULAttrs = (indent: number) => {
+        const attrs = getWrapperAttrs(
+          this.options,
+          "task",
+          indent,
+          getTaskListStyle(indent),
+          HTMLAttributes,
+        );
+        Object.entries(attrs).forEach(([key, value]) => {
+          setOptionalAttribute(ul, key, value);
+        });
+      };
+      setULAttrs(node.attrs.indent);
+
+      const status = getTaskStatus(this.options, node);
 
       const li = document.createElement("li");
       li.setAttribute("data-list-indent", node.attrs.indent);
       li.setAttribute("data-checked", node.attrs.checked);
-      li.style.cssText = "position: relative;";
+      setOptionalAttribute(li, "data-status", status?.name);
+      li.toggleAttribute("data-collapsed", !!node.attrs.collapsed);
+      if (inline) li.style.cssText = taskItemStyles.li;
       // Object.entries(this.options.HTMLAttributes).forEach(([key, value]) => {
       //   listItem.setAttribute(key, value)
       // })
 
       const label = document.createElement("label");
       label.contentEditable = "false";
-      label.style.cssText =
-        "position: absolute; left: -20px; top: 0; user-select: none;";
+      if (inline) label.style.cssText = taskItemStyles.label;
 
       const input = document.createElement("input");
       input.type = "checkbox";
-      input.checked = node.attrs.checked;
-      input.style.cssText = "cursor: pointer;";
-      input.ariaLabel = checkboxAriaLabel(this.options, node);
+      setCheckboxState(
+        input,
+        getCheckboxState(node, status, isIndeterminate(decorations)),
+      );
+      if (inline) input.style.cssText = taskItemStyles.input;
+      input.ariaLabel = checkboxAriaLabel(this.options, node, status);
 
       const span = document.createElement("span");
 
@@ -219,6 +352,7 @@ export const FlatListTask = Node.create<FlatListTaskOptions>({
         const { checked } = event.target as any;
 
         if (editor.isEditable && typeof getPos === "function") {
+          const statuses = this.options.statuses;
           editor
             .chain()
             .focus(undefined, { scrollIntoView: false })
@@ -229,12 +363,48 @@ export const FlatListTask = Node.create<FlatListTaskOptions>({
                 return false;
               }
               const currentNode = tr.doc.nodeAt(position);
-
+              if (!currentNode) return false;
+
+              let newAttrs: { checked: boolean; status?: string };
+              if (statuses && statuses.length > 0) {
+                // Cycle to the next status.
+                const currentStatus = getTaskStatus(this.options, currentNode);
+                const nextStatus =
+                  statuses[
+                    (statuses.indexOf(currentStatus!) + 1) % statuses.length
+                  ];
+                newAttrs = {
+                  checked: nextStatus.checked,
+                  status: nextStatus.name,
+                };
+              } else {
+                newAttrs = { checked };
+              }
               tr.setNodeMarkup(position, undefined, {
-                ...currentNode?.attrs,
-                checked,
+                ...currentNode.attrs,
+                ...newAttrs,
               });
 
+              if (this.options.propagateChecked) {
+                // Apply the change to the node's descendant task items.
+                const $pos = tr.doc.resolve(position);
+                const endIndex = getDescendantsEndIndex(
+                  $pos.parent,
+                  $pos.index(),
+                );
+                let descendantPos = position + currentNode.nodeSize;
+                for (let i = $pos.index() + 1; i < endIndex; i++) {
+                  const descendant = $pos.parent.child(i);
+                  if (descendant.type === this.type) {
+                    tr.setNodeMarkup(descendantPos, undefined, {
+                      ...descendant.attrs,
+                      ...newAttrs,
+                    });
+                  }
+                  descendantPos += descendant.nodeSize;
+                }
+              }
+
               return true;
             })
             .run();
@@ -250,19 +420,31 @@ export const FlatListTask = Node.create<FlatListTaskOptions>({
       return {
         dom: ul,
         contentDOM: div,
-        update: (updatedNode) => {
+        update: (updatedNode, updatedDecorations) => {
           if (updatedNode.type !== this.type) {
             return false;
           }
 
           // Re-do all assignments above that are functions of the node attrs.
-          ul.style.cssText = `margin-bottom: 0; margin-left: ${
-            20 * updatedNode.attrs.indent
-          }px; list-style-type: none;`;
+          const updatedStatus = getTaskStatus(this.options, updatedNode);
+          setULAttrs(updatedNode.attrs.indent);
           li.setAttribute("data-list-indent", updatedNode.attrs.indent);
           li.setAttribute("data-checked", updatedNode.attrs.checked);
-          input.checked = updatedNode.attrs.checked;
-          input.ariaLabel = checkboxAriaLabel(this.options, updatedNode);
+          setOptionalAttribute(li, "data-status", updatedStatus?.name);
+          li.toggleAttribute("data-collapsed", !!updatedNode.attrs.collapsed);
+          setCheckboxState(
+            input,
+            getCheckboxState(
+              updatedNode,
+              updatedStatus,
+              isIndeterminate(updatedDecorations),
+            ),
+          );
+          input.ariaLabel = checkboxAriaLabel(
+            this.options,
+            updatedNode,
+            updatedStatus,
+          );
 
           return true;
         },
@@ -270,6 +452,10 @@ export const FlatListTask = Node.create<FlatListTaskOptions>({
     };
   },
 
+  addProseMirrorPlugins() {
+    return this.options.propagateChecked ? [flatListIndeterminatePlugin()] : [];
+  },
+
   addKeyboardShortcuts() {
     return {
       "Mod-Shift-9": () => this.editor.commands.toggleFlatListItem("task"),
@@ -279,21 +465,109 @@ export const FlatListTask = Node.create<FlatListTaskOptions>({
   addInputRules() {
     return [
       // Convert "- [ ]" or "- [x]" to a task list item if not already.
-      // Regex from https://github.com/ueberdosis/tiptap/blob/main/packages/extension-task-item/src/task-item.ts
+      // Regex based on https://github.com/ueberdosis/tiptap/blob/main/packages/extension-task-item/src/task-item.ts
       flatListTypeInputRule({
-        find: /^\s*(\[([( |x])?\])\s$/i,
+        find: /^[ \t]*(\[([( |x])?\])\s$/i,
         type: this.type,
+        maxIndent: getMaxIndent(this.editor),
+        getAttributes: (match) => ({
+          checked: match[match.length - 1]?.toLowerCase() === "x",
+        }),
       }),
     ];
   },
 });
 
+/**
+ * Returns the task item's status, or null if the statuses option is not set.
+ *
+ * The status is given by the `status` attr, if it matches one of the statuses and agrees with
+ * the `checked` attr. Otherwise (e.g. content from before the statuses option was set, or that was
+ * only checked/unchecked), it is the first status that agrees with the `checked` attr.
+ */
+function getTaskStatus(
+  options: FlatListTaskOptions,
+  node: ProseMirrorNode,
+): FlatListTaskStatus | null {
+  const statuses = options.statuses;
+  if (!statuses || statuses.length === 0) return null;
+
+  const checked = !!node.attrs.checked;
+  return (
+    statuses.find(
+      (status) =>
+        status.name === node.attrs.status && status.checked === checked,
+    ) ??
+    statuses.find((status) => status.checked === checked) ??
+    statuses[0]
+  );
+}
+
+/**
+ * Returns how to render the task item's checkbox.
+ *
+ * @param indeterminate Whether the item's descendant task items are partly checked
+ * (see flatListIndeterminatePlugin).
+ */
+function getCheckboxState(
+  node: ProseMirrorNode,
+  status: FlatListTaskStatus | null,
+  indeterminate: boolean,
+): "checked" | "unchecked" | "indeterminate" {
+  if (indeterminate) return "indeterminate";
+  if (status?.checkbox) return status.checkbox;
+  return node.attrs.checked ? "checked" : "unchecked";
+}
+
+function isIndeterminate(decorations: readonly Decoration[]): boolean {
+  return decorations.some(
+    (decoration) =>
+      (decoration.spec as Partial<typeof indeterminateDecorationSpec>)
+        .flatListIndeterminate === true,
+  );
+}
+
+function setCheckboxState(
+  input: HTMLInputElement,
+  state: "checked" | "unchecked" | "indeterminate",
+) {
+  input.checked = state === "checked";
+  input.indeterminate = state === "indeterminate";
+}
+
+/**
+ * Inline styles for the task list's elements, used for "inline" styling.
+ * When changing: Keep flatListStylesheet in sync!
+ */
+const taskItemStyles = {
+  li: "position: relative;",
+  // Empirically, top: 0 makes the checkbox look centered.
+  // TODO: Find a general solution if this is only true for our specific line-height.
+  label: "position: absolute; left: -20px; top: 0; user-select: none;",
+  input: "cursor: pointer;",
+};
+
+function getTaskListStyle(indent: number): string {
+  return `margin-bottom: 0; margin-left: ${indentLength(indent)}; list-style-type: none;`;
+}
+
+function setOptionalAttribute(
+  element: HTMLElement,
+  name: string,
+  value: string | null | undefined,
+) {
+  if (value == null) element.removeAttribute(name);
+  else element.setAttribute(name, value);
+}
+
 function checkboxAriaLabel(
   options: FlatListTaskOptions,
   node: ProseMirrorNode,
+  status: FlatListTaskStatus | null,
 ): string {
+  const statusSuffix = status ? ` (${status.label ?? status.name})` : "";
   return (
-    options.a11y?.checkboxLabel?.(node, !!node.attrs.checked) ||
-    `Task item checkbox for ${node.textContent || "empty task item"}`
+    options.a11y?.checkboxLabel?.(node, !!node.attrs.checked, status) ||
+    `Task item checkbox for ${node.textContent || "empty task item"}${statusSuffix}`
   );
 }
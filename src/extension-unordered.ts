@@ -1,15 +1,23 @@
 import { Node } from "@tiptap/core";
 import { unorderedNodeName } from "./internal/extension-names";
+import { getWrapperAttrs, indentLength } from "./internal/styling";
 import {
+  computeCollapsed,
+  computeContinuationIndent,
   computeIndent,
   flatListTypeInputRule,
+  getMaxIndent,
   hasNoContentBeforeChildList,
+  parseWordListItem,
+  removeWordListMarker,
   replaceParagraphsWithBreaks,
 } from "./internal/utils";
+import { FlatListRenderOptions } from "./styling";
 
-export interface FlatListUnorderedOptions {
+export interface FlatListUnorderedOptions extends FlatListRenderOptions {
   /**
    * The CSS list-style-type to use for list items at the given indent.
+   * Only used for "inline" styling.
    *
    * Default: always "disc".
    */
@@ -35,6 +43,8 @@ export const FlatListUnordered = Node.create<FlatListUnorderedOptions>({
   addOptions() {
     return {
       getListStyleType: (_indent) => "disc",
+      HTMLAttributes: {},
+      styling: "inline",
     };
   },
 
@@ -44,6 +54,15 @@ export const FlatListUnordered = Node.create<FlatListUnorderedOptions>({
         default: 0,
         rendered: false,
       },
+      /**
+       * Whether the list item is collapsed (folded), hiding its "descendants"
+       * (subsequent list items with greater indent) in the editor.
+       */
+      collapsed: {
+        default: false,
+        keepOnSplit: false,
+        rendered: false,
+      },
       /**
        * Internal attr used to indicate that the list item is being "propped up" by an &nbsp;
        * for help with parsing. It is temporary and will be removed shortly after parsing
@@ -66,12 +85,16 @@ export const FlatListUnordered = Node.create<FlatListUnorderedOptions>({
         tag: "li",
         getAttrs: (element) => {
           return {
-            indent: computeIndent(element),
+            indent: computeIndent(element, getMaxIndent(this.editor)),
+            collapsed: computeCollapsed(element),
             _isTempPropped: hasNoContentBeforeChildList(element),
           };
         },
         contentElement: (element: HTMLElement) => {
-          replaceParagraphsWithBreaks(element);
+          replaceParagraphsWithBreaks(
+            element,
+            computeContinuationIndent(this.editor, element),
+          );
           if (hasNoContentBeforeChildList(element)) {
             // ProseMirror will ignore such an LI and only parse its child list.
             // Avoid this by propping up the LI with a temporary `&nbsp;`, indicated by _isTempPropped: true.
@@ -81,6 +104,21 @@ export const FlatListUnordered = Node.create<FlatListUnorderedOptions>({
           return element;
         },
       },
+      {
+        // List item paragraphs pasted from Microsoft Word.
+        tag: 'p[style*="mso-list"]',
+        // Take precedence over the paragraph rule.
+        priority: 60,
+        getAttrs: (element) => {
+          const item = parseWordListItem(element);
+          // Like for LIs, all list types fall through to here if their extension is not installed.
+          if (!item) return false;
+          return {
+            indent: Math.min(item.indent, getMaxIndent(this.editor)),
+          };
+        },
+        contentElement: removeWordListMarker,
+      },
     ];
   },
 
@@ -88,19 +126,23 @@ export const FlatListUnordered = Node.create<FlatListUnorderedOptions>({
     const listStyleType = this.options.getListStyleType(node.attrs.indent ?? 0);
     return [
       "ul",
-      {
-        // Apply styling inline since I'm not sure how to include a CSS class in a Tiptap extension.
-        // If you add other attrs here that shouldn't appear in copied lists,
-        // modify joinListElements to remove them too.
-        style: `margin-bottom: 0; margin-left: ${
-          20 * node.attrs.indent
-        }px; list-style-type: ${listStyleType};`,
-      },
+      // If you add other attrs here that shouldn't appear in copied lists,
+      // modify joinListElements to remove them too.
+      getWrapperAttrs(
+        this.options,
+        "unordered",
+        node.attrs.indent,
+        `margin-bottom: 0; margin-left: ${indentLength(
+          node.attrs.indent,
+        )}; list-style-type: ${listStyleType};`,
+      ),
       [
         "li",
         {
           // For computeIndent and joinListElements.
           "data-list-indent": node.attrs.indent,
+          // For computeCollapsed.
+          "data-collapsed": node.attrs.collapsed ? "" : null,
         },
         0,
       ],
@@ -116,9 +158,11 @@ export const FlatListUnordered = Node.create<FlatListUnorderedOptions>({
   addInputRules() {
     return [
       // Convert "- " to an unordered list item if not already.
+      // Leading spaces or tabs (e.g. "    - ") indent it.
       flatListTypeInputRule({
-        find: /^\s?([*\-+])\s$/,
+        find: /^[ \t]*([*\-+])\s$/,
         type: this.type,
+        maxIndent: getMaxIndent(this.editor),
       }),
     ];
   },
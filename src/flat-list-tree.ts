@@ -0,0 +1,175 @@
+import { JSONContent } from "@tiptap/core";
+import { continuationNodeName } from "./internal/extension-names";
+import {
+  getFlatListNodeName,
+  getListTypeFromNodeName,
+  ListType,
+} from "./list-type";
+
+/**
+ * A (non-flat-list) node in a FlatListTree. Same as ProseMirror JSON,
+ * except that runs of flat list items in its content are grouped into FlatListTreeLists.
+ */
+export type FlatListTreeNode = Omit<JSONContent, "content"> & {
+  content?: FlatListTreeBlock[];
+};
+
+/**
+ * A child of a FlatListTreeNode: either a list (analog of `<ol>`/`<ul>`) or another node.
+ */
+export type FlatListTreeBlock = FlatListTreeList | FlatListTreeNode;
+
+/**
+ * A list of same-type list items (analog of `<ol>`/`<ul>`).
+ */
+export interface FlatListTreeList {
+  type: "flatList";
+  listType: ListType;
+  items: FlatListTreeItem[];
+}
+
+/**
+ * A list item (analog of `<li>`).
+ */
+export interface FlatListTreeItem {
+  /**
+   * The flat list item's ProseMirror JSON, unchanged (including its original `indent` attr).
+   */
+  node: JSONContent;
+  /**
+   * The item's nested lists, formed by its "descendants" (subsequent list items with greater indent),
+   * and its continuation paragraphs (FlatListContinuation nodes' JSON, unchanged), in document order.
+   * There may be several lists, e.g., an ordered list followed by an unordered list.
+   */
+  children: FlatListTreeBlock[];
+}
+
+/**
+ * Returns whether the given FlatListTreeBlock is a FlatListTreeList.
+ */
+export function isFlatListTreeList(
+  block: FlatListTreeBlock,
+): block is FlatListTreeList {
+  return block.type === "flatList" && "items" in block;
+}
+
+/**
+ * Converts ProseMirror JSON (e.g. `editor.getJSON()`) into a tree, grouping consecutive flat list items
+ * into nested lists according to their ListType and indent.
+ *
+ * This uses the same rules as JoinListDOMSerializer, so the tree has the same shape as its HTML:
+ * - A list item joins the list at its indent if that list has the same ListType, else it starts a new list.
+ * - A new list at indent \> 0 is nested under the last list item at the previous indent level.
+ * If there is no such item (an indent gap), the list is placed at the top level instead.
+ * - A continuation paragraph is added to the children of the last list item at its indent level.
+ *
+ * The input is not modified. Flat list items nested inside other nodes (e.g. blockquotes) are
+ * also converted.
+ */
+export function flatListToTree(json: JSONContent): FlatListTreeNode {
+  const { content, ...rest } = json;
+  if (content === undefined) return rest;
+  return { ...rest, content: groupFlatListItems(content) };
+}
+
+/**
+ * Inverse of flatListToTree: converts a tree back into ProseMirror JSON with flat list items.
+ *
+ * Each list item's `indent` attr is set to its list's nesting depth, and continuations get their
+ * list item's indent. So for documents that satisfy
+ * the indent invariant (indent \<= previous indent + 1), `treeToFlatList(flatListToTree(json))`
+ * is equivalent to `json`; indent gaps are normalized, like when parsing HTML.
+ */
+export function treeToFlatList(tree: FlatListTreeNode): JSONContent {
+  const { content, ...rest } = tree;
+  if (content === undefined) return rest;
+
+  const flatContent: JSONContent[] = [];
+  for (const block of content) {
+    if (isFlatListTreeList(block)) flattenList(block, 0, flatContent);
+    else flatContent.push(treeToFlatList(block));
+  }
+  return { ...rest, content: flatContent };
+}
+
+function groupFlatListItems(content: JSONContent[]): FlatListTreeBlock[] {
+  const blocks: FlatListTreeBlock[] = [];
+  // Store the last lists for each indent level, like joinListElements.
+  let lastLists: FlatListTreeList[] = [];
+
+  for (const node of content) {
+    const listType =
+      node.type === undefined ? null : getListTypeFromNodeName(node.type);
+    if (node.type === continuationNodeName) {
+      // Continuation: add it to the last item at its indent level (or the closest lower one).
+      let indent = Math.min(
+        Math.max(Number(node.attrs?.indent ?? 0) || 0, 0),
+        lastLists.length - 1,
+      );
+      while (indent >= 0 && lastLists[indent] === undefined) indent--;
+      if (indent >= 0) {
+        const { items } = lastLists[indent];
+        items[items.length - 1].children.push(node);
+
+        // Reset the lastLists for higher indent levels.
+        lastLists.length = indent + 1;
+        continue;
+      }
+    }
+    if (listType === null) {
+      // Not a list item. Reset all lastLists.
+      lastLists = [];
+      blocks.push(flatListToTree(node));
+      continue;
+    }
+
+    const indent = Math.max(Number(node.attrs?.indent ?? 0) || 0, 0);
+    const item: FlatListTreeItem = { node, children: [] };
+
+    const lastList = lastLists[indent];
+    if (lastList === undefined || lastList.listType !== listType) {
+      // Start a new list, nested under the previous indent level's last item if possible.
+      const list: FlatListTreeList = {
+        type: "flatList",
+        listType,
+        items: [item],
+      };
+      const parentList = indent > 0 ? lastLists[indent - 1] : undefined;
+      if (parentList !== undefined) {
+        parentList.items[parentList.items.length - 1].children.push(list);
+      } else {
+        blocks.push(list);
+      }
+
+      // Reset the lastLists for it and higher indent levels.
+      lastLists[indent] = list;
+      lastLists.length = indent + 1;
+    } else {
+      // Append the item to the existing list.
+      lastList.items.push(item);
+
+      // Reset the lastLists for higher indent levels.
+      lastLists.length = indent + 1;
+    }
+  }
+
+  return blocks;
+}
+
+function flattenList(
+  list: FlatListTreeList,
+  indent: number,
+  output: JSONContent[],
+): void {
+  for (const item of list.items) {
+    output.push({
+      ...item.node,
+      type: item.node.type ?? getFlatListNodeName(list.listType),
+      attrs: { ...item.node.attrs, indent },
+    });
+    for (const child of item.children) {
+      if (isFlatListTreeList(child)) flattenList(child, indent + 1, output);
+      else output.push({ ...child, attrs: { ...child.attrs, indent } });
+    }
+  }
+}
@@ -1,6 +1,14 @@
 export * from "./extension-core";
+export * from "./extension-continuation";
+export * from "./extension-custom";
 export * from "./extension-ordered";
 export * from "./extension-task";
 export * from "./extension-unordered";
+export * from "./flat-list-tree";
 export * from "./join-list-dom-serializer";
+export * from "./list-context";
 export * from "./list-type";
+export * from "./markdown";
+export * from "./native-lists";
+export * from "./styling";
+export * from "./text-serializer";
@@ -0,0 +1,179 @@
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey, TextSelection } from "@tiptap/pm/state";
+import { Decoration, DecorationSet, EditorView } from "@tiptap/pm/view";
+import { isFlatListNode } from "../list-type";
+import type { FlatListStyling } from "../styling";
+import { ListRun, updateListDecorations } from "./postprocessor-plugin";
+import { getCollapsedAncestorIndex, getDescendantsEndIndex } from "./utils";
+
+/**
+ * ProseMirror plugin that implements collapsed (folded) flat list items.
+ *
+ * 1. Hides the "descendants" of collapsed list items (subsequent list items with greater indent)
+ * using node decorations.
+ * 2. Adds a clickable disclosure toggle to the marker of each list item that has descendants.
+ * 3. Moves the selection out of hidden list items, so that the cursor never lands inside a hidden subtree.
+ *
+ * @param styling How to style the toggles (see FlatListStyling).
+ */
+export function flatListCollapsePlugin(styling: FlatListStyling = "inline") {
+  const compute = (run: ListRun) => computeDecorations(run, styling);
+  return new Plugin<DecorationSet>({
+    key: new PluginKey("flatListCollapsePlugin"),
+    state: {
+      init(_config, { doc }) {
+        return DecorationSet.create(
+          doc,
+          compute({
+            parent: doc,
+            start: 0,
+            end: doc.childCount,
+            from: 0,
+            to: doc.content.size,
+          }),
+        );
+      },
+      apply(tr, decorations) {
+        // Only recompute the lists affected by tr, like flatListPostprocessorPlugin.
+        return updateListDecorations(decorations, tr, compute);
+      },
+    },
+    props: {
+      decorations(state) {
+        return this.getState(state);
+      },
+    },
+    appendTransaction(transactions, oldState, newState) {
+      if (!transactions.some((tr) => tr.docChanged || tr.selectionSet)) {
+        return null;
+      }
+
+      const { $head } = newState.selection;
+      if ($head.depth < 1) return null;
+      const parent = $head.node(-1);
+      const ancestorIndex = getCollapsedAncestorIndex(parent, $head.index(-1));
+      if (ancestorIndex === null) return null;
+
+      // The cursor is inside a hidden list item. Move it past the hidden subtree
+      // (if moving forward) or to the end of the visible collapsed ancestor.
+      const endIndex = getDescendantsEndIndex(parent, ancestorIndex);
+      let selection: TextSelection | null = null;
+      if (oldState.selection.head < $head.pos && endIndex < parent.childCount) {
+        const $after = newState.doc.resolve(
+          $head.posAtIndex(endIndex, $head.depth - 1),
+        );
+        const candidate = TextSelection.findFrom($after, 1, true);
+        if (candidate instanceof TextSelection) selection = candidate;
+      }
+      if (selection === null) {
+        const ancestorEnd =
+          $head.posAtIndex(ancestorIndex, $head.depth - 1) +
+          parent.child(ancestorIndex).nodeSize -
+          1;
+        selection = TextSelection.create(newState.doc, ancestorEnd);
+      }
+
+      return newState.tr.setSelection(selection).setMeta("addToHistory", false);
+    },
+  });
+}
+
+/**
+ * Computes the decorations for a run of children, including list items nested in its other blocks.
+ */
+function computeDecorations(
+  { parent, start, end, from }: ListRun,
+  styling: FlatListStyling,
+): Decoration[] {
+  const decorations: Decoration[] = [];
+
+  // Loop over node's children, looking for list items with descendants.
+  const processChildren = (
+    node: PMNode,
+    childPos: number,
+    start: number,
+    end: number,
+  ) => {
+    for (let index = start; index < end; ) {
+      const child = node.child(index);
+      if (!isFlatListNode(child)) {
+        if (!child.inlineContent) {
+          // Recurse into nodes that could have flat-list-item descendants.
+          processChildren(child, childPos + 1, 0, child.childCount);
+        }
+        childPos += child.nodeSize;
+        index++;
+        continue;
+      }
+
+      const endIndex = getDescendantsEndIndex(node, index);
+      const collapsed = !!child.attrs.collapsed;
+      if (endIndex > index + 1 || collapsed) {
+        decorations.push(
+          Decoration.widget(
+            childPos + 1,
+            (view, getPos) => createToggle(view, getPos, collapsed, styling),
+            { side: -1, key: collapsed ? "collapsed" : "expanded" },
+          ),
+        );
+      }
+
+      childPos += child.nodeSize;
+      index++;
+      if (collapsed) {
+        // Hide all descendants, skipping over them.
+        for (; index < endIndex; index++) {
+          const hidden = node.child(index);
+          decorations.push(
+            Decoration.node(childPos, childPos + hidden.nodeSize, {
+              style: "display: none;",
+              "data-list-hidden": "",
+            }),
+          );
+          childPos += hidden.nodeSize;
+        }
+      }
+    }
+  };
+
+  processChildren(parent, from, start, end);
+  return decorations;
+}
+
+/**
+ * Creates the disclosure toggle shown in a list item's marker.
+ */
+function createToggle(
+  view: EditorView,
+  getPos: () => number | undefined,
+  collapsed: boolean,
+  styling: FlatListStyling,
+): HTMLElement {
+  const toggle = document.createElement("span");
+  toggle.contentEditable = "false";
+  toggle.setAttribute("role", "button");
+  toggle.setAttribute("aria-expanded", String(!collapsed));
+  toggle.ariaLabel = collapsed ? "Expand list item" : "Collapse list item";
+  toggle.textContent = collapsed ? "▸" : "▾";
+  // Position in the marker area, left of the list item's bullet/number/checkbox.
+  toggle.className = "flat-list-toggle";
+  if (styling === "inline") {
+    toggle.style.cssText =
+      "position: absolute; margin-left: -40px; cursor: pointer; user-select: none;";
+  }
+
+  toggle.addEventListener("mousedown", (event) => event.preventDefault());
+  toggle.addEventListener("click", () => {
+    const pos = getPos();
+    if (pos === undefined || !view.editable) return;
+    // The widget is at the start of the list item's content.
+    const itemPos = pos - 1;
+    const item = view.state.doc.nodeAt(itemPos);
+    if (!item || !isFlatListNode(item)) return;
+    view.dispatch(
+      view.state.tr.setNodeAttribute(itemPos, "collapsed", !collapsed),
+    );
+  });
+
+  return toggle;
+}
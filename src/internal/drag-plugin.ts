@@ -0,0 +1,364 @@
+import { Fragment, Node as PMNode, Slice } from "@tiptap/pm/model";
+import { Plugin, PluginKey, TextSelection } from "@tiptap/pm/state";
+import { Decoration, DecorationSet, EditorView } from "@tiptap/pm/view";
+import { isFlatListContinuation, isFlatListNode } from "../list-type";
+import type { FlatListStyling } from "../styling";
+import { FlatListTextSerializer } from "../text-serializer";
+import { indentLength } from "./styling";
+import {
+  clampIndents,
+  getCollapsedAncestorIndex,
+  getDescendantsEndIndex,
+} from "./utils";
+
+interface DragPluginState {
+  /** The drag handle decorations. */
+  handles: DecorationSet;
+  /** The range of the list item and descendants being dragged, if any. */
+  source: { from: number; to: number } | null;
+  /** The current drop target, for the drop indicator. */
+  target: DropTarget | null;
+}
+
+interface DropTarget {
+  /** The position between blocks where the dragged items would be inserted. */
+  pos: number;
+  /** The indents of the dragged items after dropping. */
+  indents: number[];
+}
+
+type DragPluginMeta =
+  | { type: "start"; source: { from: number; to: number } }
+  | { type: "target"; target: DropTarget | null }
+  | { type: "end" };
+
+const dragPluginKey = new PluginKey<DragPluginState>("flatListDragPlugin");
+
+/**
+ * ProseMirror plugin that implements drag-and-drop reordering of flat list items.
+ *
+ * 1. Adds a drag handle to the marker of each list item.
+ * 2. Dragging a handle picks up its list item together with its "descendants"
+ * (subsequent list items with greater indent).
+ * 3. Dropping moves them between the blocks nearest to the drop position, setting indents
+ * like flatListPastePlugin: the first item matches the indent of the previous block
+ * (or 0 if that block is not a list item), and the others keep their relative indents.
+ * While dragging, a drop indicator shows the target position and indent.
+ */
+export function flatListDragPlugin(
+  maxIndent = Infinity,
+  styling: FlatListStyling = "inline",
+) {
+  return new Plugin<DragPluginState>({
+    key: dragPluginKey,
+    state: {
+      init(_config, state) {
+        return {
+          handles: computeHandles(state.doc, styling),
+          source: null,
+          target: null,
+        };
+      },
+      apply(tr, value) {
+        const meta = tr.getMeta(dragPluginKey) as DragPluginMeta | undefined;
+        let { handles, source, target } = value;
+        if (tr.docChanged) {
+          handles = computeHandles(tr.doc, styling);
+          // The drag is stale.
+          source = null;
+          target = null;
+        }
+        if (meta?.type === "start") {
+          source = meta.source;
+          target = null;
+        } else if (meta?.type === "target") {
+          target = meta.target;
+        } else if (meta?.type === "end") {
+          source = null;
+          target = null;
+        }
+        return { handles, source, target };
+      },
+    },
+    props: {
+      decorations(state) {
+        const { handles, target } = this.getState(state)!;
+        if (target === null) return handles;
+        return handles.add(state.doc, [
+          Decoration.widget(
+            target.pos,
+            () => createDropIndicator(target.indents[0], styling),
+            { key: `drop-indicator-${target.indents[0]}` },
+          ),
+        ]);
+      },
+      handleDOMEvents: {
+        dragover(view, event) {
+          const { source, target } = dragPluginKey.getState(view.state)!;
+          if (source === null) return false;
+          const newTarget = getDropTarget(view, event, source, maxIndent);
+          if (
+            newTarget?.pos !== target?.pos ||
+            newTarget?.indents[0] !== target?.indents[0]
+          ) {
+            setMeta(view, { type: "target", target: newTarget });
+          }
+          return false;
+        },
+      },
+      handleDrop(view, event, _slice, moved) {
+        const { source } = dragPluginKey.getState(view.state)!;
+        if (source === null) return false;
+
+        const target = getDropTarget(view, event, source, maxIndent);
+        if (target === null) {
+          // Not a valid target. Don't let ProseMirror drop the items elsewhere.
+          setMeta(view, { type: "end" });
+          return true;
+        }
+
+        const { state } = view;
+        const tr = state.tr;
+        const items: PMNode[] = [];
+        state.doc.nodesBetween(source.from, source.to, (node) => {
+          items.push(
+            node.type.create(
+              { ...node.attrs, indent: target.indents[items.length] },
+              node.content,
+              node.marks,
+            ),
+          );
+          return false;
+        });
+
+        // Insert before deleting if the target is after the source, so that positions stay valid.
+        let insertPos = target.pos;
+        if (moved) {
+          if (target.pos >= source.to) {
+            tr.insert(target.pos, items).delete(source.from, source.to);
+            insertPos = target.pos - (source.to - source.from);
+          } else {
+            tr.delete(source.from, source.to).insert(target.pos, items);
+          }
+        } else {
+          tr.insert(target.pos, items);
+        }
+        tr.setSelection(
+          TextSelection.create(tr.doc, insertPos + items[0].nodeSize - 1),
+        );
+        tr.setMeta(dragPluginKey, { type: "end" } satisfies DragPluginMeta);
+        view.dispatch(tr);
+        view.focus();
+        return true;
+      },
+    },
+  });
+}
+
+function setMeta(view: EditorView, meta: DragPluginMeta) {
+  view.dispatch(view.state.tr.setMeta(dragPluginKey, meta));
+}
+
+function computeHandles(doc: PMNode, styling: FlatListStyling): DecorationSet {
+  const decorations: Decoration[] = [];
+
+  const processChildren = (node: PMNode, contentStart: number) => {
+    node.forEach((child, offset) => {
+      if (isFlatListNode(child)) {
+        decorations.push(
+          Decoration.widget(
+            contentStart + offset + 1,
+            (view, getPos) => createHandle(view, getPos, styling),
+            {
+              side: -1,
+              key: "drag-handle",
+              // Handle dragstart ourselves, instead of ProseMirror dragging the selection.
+              stopEvent: (event) => event.type === "dragstart",
+            },
+          ),
+        );
+      }
+    });
+  };
+
+  processChildren(doc, 0);
+  doc.descendants((node, pos) => {
+    if (node.inlineContent) return false;
+    processChildren(node, pos + 1);
+    // Recurse into nodes that could have flat-list-item descendants.
+    return true;
+  });
+
+  return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Creates the drag handle shown in a list item's marker.
+ */
+function createHandle(
+  view: EditorView,
+  getPos: () => number | undefined,
+  styling: FlatListStyling,
+): HTMLElement {
+  const handle = document.createElement("span");
+  handle.contentEditable = "false";
+  handle.draggable = true;
+  handle.ariaLabel = "Drag list item";
+  handle.textContent = "⠿";
+  // Position in the marker area, left of the collapse toggle (if any).
+  handle.className = "flat-list-drag-handle";
+  if (styling === "inline") {
+    handle.style.cssText =
+      "position: absolute; margin-left: -60px; cursor: grab; user-select: none;";
+  }
+
+  handle.addEventListener("dragstart", (event) => {
+    const pos = getPos();
+    if (pos === undefined || !view.editable || !event.dataTransfer) {
+      event.preventDefault();
+      return;
+    }
+    // The widget is at the start of the list item's content.
+    const $item = view.state.doc.resolve(pos - 1);
+    const item = $item.nodeAfter;
+    if (!item || !isFlatListNode(item)) {
+      event.preventDefault();
+      return;
+    }
+
+    // Pick up the list item and its descendants.
+    const endIndex = getDescendantsEndIndex($item.parent, $item.index());
+    const source = {
+      from: $item.pos,
+      to: $item.posAtIndex(endIndex),
+    };
+    const content = view.state.doc.slice(source.from, source.to).content;
+
+    event.dataTransfer.effectAllowed = "copyMove";
+    event.dataTransfer.setData(
+      "text/plain",
+      FlatListTextSerializer.fromSchema(view.state.schema).serializeFragment(
+        content,
+      ),
+    );
+    const itemDOM = view.nodeDOM(source.from);
+    if (itemDOM instanceof HTMLElement) {
+      event.dataTransfer.setDragImage(itemDOM, 0, 0);
+    }
+
+    // Let ProseMirror's drop handling call our handleDrop. Copy the nodes because
+    // flatListPastePlugin's transformPasted modifies them.
+    const copies: PMNode[] = [];
+    content.forEach((node) =>
+      copies.push(node.type.create(node.attrs, node.content, node.marks)),
+    );
+    view.dragging = {
+      slice: new Slice(Fragment.from(copies), 0, 0),
+      move: true,
+    };
+    setMeta(view, { type: "start", source });
+  });
+  handle.addEventListener("dragend", () => {
+    if (dragPluginKey.getState(view.state)?.source) {
+      setMeta(view, { type: "end" });
+    }
+  });
+
+  return handle;
+}
+
+/**
+ * Creates the drop indicator: a line at the given indent level.
+ */
+function createDropIndicator(
+  indent: number,
+  styling: FlatListStyling,
+): HTMLElement {
+  const indicator = document.createElement("div");
+  if (styling === "inline") {
+    indicator.className = "flat-list-drop-indicator";
+    indicator.style.cssText = `height: 2px; margin-left: ${indentLength(
+      indent,
+    )}; background-color: currentColor; opacity: 0.5; pointer-events: none;`;
+  } else {
+    indicator.className = `flat-list-drop-indicator flat-list-indent-${indent}`;
+  }
+  return indicator;
+}
+
+/**
+ * Returns where the dragged items would be dropped for the given drag event,
+ * or null if there is no valid target.
+ *
+ * The target must be in the same parent (the doc or a container node) as the dragged items,
+ * and not inside them.
+ */
+function getDropTarget(
+  view: EditorView,
+  event: DragEvent,
+  source: { from: number; to: number },
+  maxIndent: number,
+): DropTarget | null {
+  const coords = view.posAtCoords({ left: event.clientX, top: event.clientY });
+  if (!coords) return null;
+
+  const { doc } = view.state;
+  const $source = doc.resolve(source.from);
+  const parent = $source.parent;
+  const $pos = doc.resolve(coords.pos);
+
+  // Find the block in parent that contains the drop position.
+  let depth = $pos.depth;
+  while (depth > $source.depth && $pos.node(depth - 1) !== parent) depth--;
+  if (depth <= $source.depth || $pos.node(depth - 1) !== parent) return null;
+  let index = $pos.index(depth - 1);
+
+  // Drop before or after the block, depending on which half the pointer is in.
+  const blockPos = $pos.before(depth);
+  const blockDOM = view.nodeDOM(blockPos);
+  let after = false;
+  if (blockDOM instanceof HTMLElement) {
+    const rect = blockDOM.getBoundingClientRect();
+    after = event.clientY > rect.top + rect.height / 2;
+  }
+  if (after) {
+    // Skip over hidden descendants of a collapsed item.
+    index =
+      parent.child(index).attrs.collapsed === true
+        ? getDescendantsEndIndex(parent, index)
+        : index + 1;
+  }
+  // Don't drop between a collapsed item and its hidden descendants.
+  if (index < parent.childCount) {
+    const ancestorIndex = getCollapsedAncestorIndex(parent, index);
+    if (ancestorIndex !== null) {
+      index = getDescendantsEndIndex(parent, ancestorIndex);
+    }
+  }
+
+  const pos = $source.posAtIndex(index);
+  if (pos > source.from && pos < source.to) return null;
+
+  // Compute indents like flatListPastePlugin.
+  const previous = index > 0 ? parent.child(index - 1) : null;
+  const previousIndent =
+    previous && (isFlatListNode(previous) || isFlatListContinuation(previous))
+      ? ((previous.attrs.indent as number | undefined) ?? 0)
+      : null;
+  const indents: number[] = [];
+  const continuations: boolean[] = [];
+  doc.nodesBetween(source.from, source.to, (node) => {
+    indents.push((node.attrs.indent as number | undefined) ?? 0);
+    continuations.push(isFlatListContinuation(node));
+    return false;
+  });
+  const newIndents = clampIndents(
+    indents,
+    previousIndent ?? 0,
+    previousIndent ?? -1,
+    maxIndent,
+    continuations,
+  ) as number[];
+
+  return { pos, indents: newIndents };
+}
@@ -1,6 +1,8 @@
 // Define this in a separate file to avoid circular imports.
 // Library users can instead use e.g. FlatListUnordered.name.
 
+export const coreExtensionName = "flatListCore";
 export const orderedNodeName = "flatListItemOrdered";
 export const unorderedNodeName = "flatListItemUnordered";
 export const taskNodeName = "flatListItemTask";
+export const continuationNodeName = "flatListContinuation";
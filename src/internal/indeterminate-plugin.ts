@@ -0,0 +1,133 @@
+import { Node as PMNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { isFlatListNode } from "../list-type";
+import { taskNodeName } from "./extension-names";
+import { ListRun, updateListDecorations } from "./postprocessor-plugin";
+
+/**
+ * Spec of the node decorations added by flatListIndeterminatePlugin.
+ * FlatListTask's node view checks for this to render an indeterminate checkbox.
+ */
+export const indeterminateDecorationSpec = { flatListIndeterminate: true };
+
+/**
+ * ProseMirror plugin that marks task list items whose "descendants"
+ * (subsequent list items with greater indent) include both checked and unchecked task items,
+ * using node decorations with indeterminateDecorationSpec.
+ */
+export function flatListIndeterminatePlugin() {
+  return new Plugin<DecorationSet>({
+    key: new PluginKey("flatListIndeterminatePlugin"),
+    state: {
+      init(_config, { doc }) {
+        return DecorationSet.create(
+          doc,
+          computeDecorations({
+            parent: doc,
+            start: 0,
+            end: doc.childCount,
+            from: 0,
+            to: doc.content.size,
+          }),
+        );
+      },
+      apply(tr, decorations) {
+        // Only recompute the lists affected by tr, like flatListPostprocessorPlugin.
+        return updateListDecorations(decorations, tr, computeDecorations);
+      },
+    },
+    props: {
+      decorations(state) {
+        return this.getState(state);
+      },
+    },
+  });
+}
+
+/**
+ * A list item whose descendants are still being counted.
+ */
+interface OpenItem {
+  indent: number;
+  /** Position of the item, or null if it is not a task item. */
+  pos: number | null;
+  nodeSize: number;
+  checked: number;
+  unchecked: number;
+}
+
+/**
+ * Computes the decorations for a run of children, including list items nested in its other blocks.
+ */
+function computeDecorations({
+  parent,
+  start,
+  end,
+  from,
+}: ListRun): Decoration[] {
+  const decorations: Decoration[] = [];
+
+  const closeItem = (item: OpenItem) => {
+    if (item.pos !== null && item.checked > 0 && item.unchecked > 0) {
+      decorations.push(
+        Decoration.node(
+          item.pos,
+          item.pos + item.nodeSize,
+          {},
+          indeterminateDecorationSpec,
+        ),
+      );
+    }
+  };
+
+  // Loop over node's children, tracking the open ancestors of each list item.
+  const processChildren = (
+    node: PMNode,
+    childPos: number,
+    start: number,
+    end: number,
+  ) => {
+    const openItems: OpenItem[] = [];
+    for (let index = start; index < end; index++) {
+      const child = node.child(index);
+      const indent: number = isFlatListNode(child)
+        ? (child.attrs.indent ?? 0)
+        : -1;
+      // Close items that are not ancestors of this child.
+      while (
+        openItems.length > 0 &&
+        openItems[openItems.length - 1].indent >= indent
+      ) {
+        closeItem(openItems.pop()!);
+      }
+
+      if (isFlatListNode(child)) {
+        const isTask = child.type.name === taskNodeName;
+        if (isTask) {
+          // Count this child as a descendant of its open ancestors.
+          for (const ancestor of openItems) {
+            if (child.attrs.checked) ancestor.checked++;
+            else ancestor.unchecked++;
+          }
+        }
+        openItems.push({
+          indent,
+          pos: isTask ? childPos : null,
+          nodeSize: child.nodeSize,
+          checked: 0,
+          unchecked: 0,
+        });
+      } else if (!child.inlineContent) {
+        // Recurse into nodes that could have flat-list-item descendants.
+        processChildren(child, childPos + 1, 0, child.childCount);
+      }
+
+      childPos += child.nodeSize;
+    }
+    while (openItems.length > 0) closeItem(openItems.pop()!);
+  };
+
+  processChildren(parent, from, start, end);
+  return decorations;
+}
@@ -0,0 +1,212 @@
+import { Editor } from "@tiptap/core";
+import { Fragment, Node as PMNode } from "@tiptap/pm/model";
+import { EditorState, Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationAttrs, DecorationSet } from "@tiptap/pm/view";
+import type {
+  FlatListOrderedOptions,
+  OrderedMarkerStyle,
+} from "../extension-ordered";
+import type { CounterDerivation } from "../join-list-dom-serializer";
+import { orderedNodeName } from "./extension-names";
+import {
+  findDecorationsIn,
+  Postprocessor,
+  processChangedLists,
+} from "./postprocessor-plugin";
+import { getOrderedListStyleType } from "./ordered-marker";
+import { cssString } from "./utils";
+
+/**
+ * Spec of the node decorations added by flatListNumberingPlugin:
+ * the FlatListOrdered node's computed `counter` and `number` attrs.
+ */
+export interface NumberingDecorationSpec {
+  flatListCounter: number;
+  flatListNumber: string | null;
+}
+
+const numberingPluginKey = new PluginKey<DecorationSet>(
+  "flatListNumberingPlugin",
+);
+
+/**
+ * ProseMirror plugin for FlatListOrdered's "decorations" counters mode: computes the FlatListOrdered nodes'
+ * counters in plugin state, like flatListPostprocessorPlugin does in "attributes" mode,
+ * but without changing the document.
+ *
+ * Each FlatListOrdered node gets a node decoration with NumberingDecorationSpec that sets its OL's
+ * `start` attribute and, for "hierarchical" numbering, its marker. Like flatListPostprocessorPlugin,
+ * it only recomputes the lists affected by each transaction.
+ */
+export function flatListNumberingPlugin(options: FlatListOrderedOptions) {
+  const formatNumber =
+    options.numbering === "hierarchical" ? options.formatNumber : null;
+  // Indents in the final document are repaired by flatListPostprocessorPlugin,
+  // so the repair options don't matter here.
+  const createProcessor = () =>
+    new Postprocessor("clamp", formatNumber, Infinity, false);
+
+  const createDecorations = (processor: Postprocessor, doc: PMNode) =>
+    Array.from(processor.counters, ([pos, { counter, number }]) => {
+      const spec: NumberingDecorationSpec = {
+        flatListCounter: counter,
+        flatListNumber: number,
+      };
+      const node = doc.nodeAt(pos)!;
+      return Decoration.node(
+        pos,
+        pos + node.nodeSize,
+        getDecorationAttrs(options, node, counter, number),
+        spec,
+      );
+    });
+
+  return new Plugin<DecorationSet>({
+    key: numberingPluginKey,
+    state: {
+      init(_config, state) {
+        const processor = createProcessor();
+        processor.processChildren(
+          state.doc.content,
+          0,
+          0,
+          state.doc.childCount,
+        );
+        return DecorationSet.create(
+          state.doc,
+          createDecorations(processor, state.doc),
+        );
+      },
+      apply(tr, decorations) {
+        if (!tr.docChanged) return decorations;
+
+        // Replace the decorations in the lists affected by tr.
+        const processor = createProcessor();
+        const runs = processChangedLists(processor, [tr], tr.doc);
+        const mapped = decorations.map(tr.mapping, tr.doc);
+        const stale = runs.flatMap((run) => findDecorationsIn(mapped, run));
+        return mapped
+          .remove(stale)
+          .add(tr.doc, createDecorations(processor, tr.doc));
+      },
+    },
+    props: {
+      decorations(state) {
+        return this.getState(state);
+      },
+    },
+  });
+}
+
+/**
+ * Returns the attrs that a numbering decoration adds to the OL rendered by FlatListOrdered.
+ */
+function getDecorationAttrs(
+  options: FlatListOrderedOptions,
+  node: PMNode,
+  counter: number,
+  number: string | null,
+): DecorationAttrs {
+  const attrs: DecorationAttrs = { start: String(counter) };
+  if (number === null) {
+    const markerStyle = node.attrs.markerStyle as OrderedMarkerStyle | null;
+    if (options.styling === "inline" && markerStyle?.[1] === ")") {
+      // Like FlatListOrdered.renderHTML: the marker is a string containing the counter.
+      // (For "classes" styling, flatListStylesheet shows it using the start attr.)
+      attrs.style = `list-style-type: ${getOrderedListStyleType(options, node.attrs, counter)};`;
+    }
+  } else {
+    // Like FlatListOrdered.renderHTML with a `number` attr. For "classes" styling,
+    // flatListStylesheet shows the --flat-list-number property as the marker.
+    const marker = cssString(`${number} `);
+    attrs["data-list-number"] = number;
+    attrs.style =
+      options.styling === "inline"
+        ? `list-style-type: ${marker};`
+        : `--flat-list-number: ${marker};`;
+  }
+  return attrs;
+}
+
+/**
+ * Returns the counter of the FlatListOrdered node at pos: from flatListNumberingPlugin if it is active,
+ * else the node's `counter` attr.
+ */
+export function getOrderedCounter(
+  state: EditorState,
+  pos: number,
+  node: PMNode,
+): number {
+  const decoration = numberingPluginKey
+    .getState(state)
+    ?.find(pos, pos + node.nodeSize)
+    .find((decoration) => decoration.from === pos);
+  if (decoration) {
+    return (decoration.spec as NumberingDecorationSpec).flatListCounter;
+  }
+  return (node.attrs.counter as number | undefined) ?? 1;
+}
+
+/**
+ * Returns how serializers should derive the editor's counters,
+ * or null if FlatListOrdered stores them in the document ("attributes" counters mode).
+ */
+export function getCounterDerivation(editor: Editor): CounterDerivation | null {
+  const options = editor.extensionManager.extensions.find(
+    (extension) => extension.name === orderedNodeName,
+  )?.options as FlatListOrderedOptions | undefined;
+  if (options?.counters !== "decorations") return null;
+  return {
+    formatNumber:
+      options.numbering === "hierarchical" ? options.formatNumber : null,
+  };
+}
+
+/**
+ * Returns content with its FlatListOrdered nodes' `counter` and `number` attrs set to their computed values,
+ * e.g. before serializing content in the "decorations" counters mode.
+ * Lists at the start of content are numbered as if nothing precedes them.
+ */
+export function deriveCounters(
+  content: Fragment,
+  derivation: CounterDerivation,
+): Fragment {
+  const processor = new Postprocessor(
+    "clamp",
+    derivation.formatNumber,
+    Infinity,
+    false,
+  );
+  processor.processChildren(content, 0, 0, content.childCount);
+  if (processor.counters.size === 0) return content;
+  return setCounters(content, processor.counters, 0);
+}
+
+/**
+ * Sets the computed counters by position, where offset is the position of content's start.
+ */
+function setCounters(
+  content: Fragment,
+  counters: Postprocessor["counters"],
+  offset: number,
+): Fragment {
+  const children: PMNode[] = [];
+  content.forEach((node, nodeOffset) => {
+    const pos = offset + nodeOffset;
+    const computed = counters.get(pos);
+    if (computed) {
+      children.push(
+        node.type.create(
+          { ...node.attrs, counter: computed.counter, number: computed.number },
+          node.content,
+          node.marks,
+        ),
+      );
+    } else if (node.inlineContent || node.isLeaf) {
+      children.push(node);
+    } else {
+      children.push(node.copy(setCounters(node.content, counters, pos + 1)));
+    }
+  });
+  return Fragment.from(children);
+}
@@ -0,0 +1,197 @@
+import type { Attrs } from "@tiptap/pm/model";
+import type {
+  FlatListOrderedOptions,
+  OrderedMarkerStyle,
+} from "../extension-ordered";
+import { cssString } from "./utils";
+
+/**
+ * The CSS list-style-types of OrderedMarkerStyle numerals (which are also OL type attr values).
+ */
+const numeralListStyleTypes: Record<string, string> = {
+  "1": "decimal",
+  a: "lower-alpha",
+  A: "upper-alpha",
+  i: "lower-roman",
+  I: "upper-roman",
+};
+
+const romanNumerals: [string, number][] = [
+  ["m", 1000],
+  ["cm", 900],
+  ["d", 500],
+  ["cd", 400],
+  ["c", 100],
+  ["xc", 90],
+  ["l", 50],
+  ["xl", 40],
+  ["x", 10],
+  ["ix", 9],
+  ["v", 5],
+  ["iv", 4],
+  ["i", 1],
+];
+
+/**
+ * Whether value is an OrderedMarkerStyle, e.g. when parsing a data-marker-style attr.
+ */
+export function isOrderedMarkerStyle(
+  value: string | null,
+): value is OrderedMarkerStyle {
+  return (
+    value !== null &&
+    value.length === 2 &&
+    value[0] in numeralListStyleTypes &&
+    (value[1] === "." || value[1] === ")")
+  );
+}
+
+/**
+ * If marker is a typed ordered list marker like "7.", "c)" or "iv.", returns its style
+ * (null for the default "1.") and its number, else null.
+ *
+ * Single letters are alphabetic, except "i" and "I" (roman 1). Longer runs of letters must be
+ * roman numerals below 400 (so that words like "mix" are not markers).
+ */
+export function parseOrderedMarker(
+  marker: string,
+): { markerStyle: OrderedMarkerStyle | null; value: number } | null {
+  const match = /^(\d+|[a-z]+|[A-Z]+)([.)])$/.exec(marker);
+  if (!match) return null;
+  const [, numeral, delimiter] = match;
+  const isUpper = numeral !== numeral.toLowerCase();
+
+  let numerals: string;
+  let value: number | null;
+  if (/^\d+$/.test(numeral)) {
+    numerals = "1";
+    value = Number.parseInt(numeral);
+  } else if (numeral.length === 1 && numeral.toLowerCase() !== "i") {
+    numerals = isUpper ? "A" : "a";
+    value = numeral.toLowerCase().charCodeAt(0) - "a".charCodeAt(0) + 1;
+  } else {
+    numerals = isUpper ? "I" : "i";
+    value = parseRoman(numeral.toLowerCase());
+    if (value === null || value >= 400) return null;
+  }
+
+  const markerStyle = `${numerals}${delimiter}` as OrderedMarkerStyle;
+  return { markerStyle: markerStyle === "1." ? null : markerStyle, value };
+}
+
+/**
+ * Returns the value of a lowercase roman numeral, or null if it is not a valid one.
+ */
+function parseRoman(numeral: string): number | null {
+  if (
+    !/^m{0,3}(cm|cd|d?c{0,3})(xc|xl|l?x{0,3})(ix|iv|v?i{0,3})$/.test(numeral)
+  ) {
+    return null;
+  }
+  let value = 0;
+  let rest = numeral;
+  for (const [symbol, symbolValue] of romanNumerals) {
+    while (rest.startsWith(symbol)) {
+      value += symbolValue;
+      rest = rest.slice(symbol.length);
+    }
+  }
+  return value;
+}
+
+/**
+ * Returns the CSS list-style-type of a marker style's numerals (e.g. "lower-alpha" for "a)").
+ */
+export function getMarkerListStyleType(
+  markerStyle: OrderedMarkerStyle | null,
+): string {
+  return numeralListStyleTypes[markerStyle?.[0] ?? "1"];
+}
+
+/**
+ * Formats counter like the given CSS list-style-type would, without its suffix.
+ * Unsupported list-style-types (and counters they can't show) are formatted as decimal.
+ */
+export function formatCounter(counter: number, listStyleType: string): string {
+  switch (listStyleType) {
+    case "lower-alpha":
+    case "lower-latin":
+    case "upper-alpha":
+    case "upper-latin": {
+      if (counter < 1) break;
+      let text = "";
+      for (let rest = counter; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+        text = String.fromCharCode(97 + ((rest - 1) % 26)) + text;
+      }
+      return listStyleType.startsWith("upper") ? text.toUpperCase() : text;
+    }
+    case "lower-roman":
+    case "upper-roman": {
+      if (counter < 1 || counter >= 4000) break;
+      let text = "";
+      let rest = counter;
+      for (const [symbol, symbolValue] of romanNumerals) {
+        for (; rest >= symbolValue; rest -= symbolValue) text += symbol;
+      }
+      return listStyleType === "upper-roman" ? text.toUpperCase() : text;
+    }
+  }
+  return String(counter);
+}
+
+/**
+ * Returns an ordered list item's marker text for the given counter, e.g. "c)" or "7.".
+ */
+export function formatOrderedMarker(
+  counter: number,
+  markerStyle: OrderedMarkerStyle | null,
+): string {
+  return (
+    formatCounter(counter, getMarkerListStyleType(markerStyle)) +
+    (markerStyle?.[1] ?? ".")
+  );
+}
+
+/**
+ * Returns the CSS list-style-type that shows an ordered list item's marker, given its counter:
+ * its hierarchical number if any, else options.getListStyleType for its marker style.
+ * Markers with a ")" delimiter, which list-style-type keywords can't show, become strings.
+ */
+export function getOrderedListStyleType(
+  options: FlatListOrderedOptions,
+  attrs: Attrs,
+  counter: number,
+): string {
+  if (attrs.number !== null && attrs.number !== undefined) {
+    return cssString(`${attrs.number} `);
+  }
+  const markerStyle = (attrs.markerStyle as OrderedMarkerStyle | null) ?? null;
+  const listStyleType = options.getListStyleType(
+    (attrs.indent as number | undefined) ?? 0,
+    markerStyle,
+  );
+  if (markerStyle?.[1] === ")") {
+    return cssString(`${formatCounter(counter, listStyleType)}) `);
+  }
+  return listStyleType;
+}
+
+/**
+ * Computes the marker style of an ordered `<li>`: its data-marker-style attr (our rendered HTML),
+ * else the numerals of its type attr or its OL's (e.g. `<ol type="a">`, or an LI that
+ * joinListElements gave another style than its list).
+ */
+export function computeMarkerStyle(
+  element: HTMLElement,
+): OrderedMarkerStyle | null {
+  const dataMarkerStyle = element.getAttribute("data-marker-style");
+  if (isOrderedMarkerStyle(dataMarkerStyle)) return dataMarkerStyle;
+
+  const type =
+    element.getAttribute("type") ??
+    element.parentElement?.getAttribute("type") ??
+    null;
+  if (type === null || type === "1") return null;
+  const markerStyle = `${type}.`;
+  return isOrderedMarkerStyle(markerStyle) ? markerStyle : null;
+}
@@ -1,6 +1,19 @@
-import { Slice } from "@tiptap/pm/model";
+import {
+  Fragment,
+  Mark,
+  Node,
+  NodeType,
+  Schema,
+  Slice,
+} from "@tiptap/pm/model";
 import { Plugin, PluginKey } from "@tiptap/pm/state";
-import { isFlatListNode } from "../list-type";
+import {
+  getFlatListNodeName,
+  isFlatListContinuation,
+  isFlatListNode,
+  ListType,
+} from "../list-type";
+import { clampIndents, getWhitespaceWidth, parseIntegerAttr } from "./utils";
 
 /**
  * ProseMirror plugin that massages pasted list items.
@@ -10,14 +23,27 @@ import { isFlatListNode } from "../list-type";
  * (or 0 if that node is not a list item).
  *   - Subsequent pasted list items preserve their indent relative to their predecessor,
  * clamped to [0, predecessor + 1].
+ *   - Pasted continuations are shifted along with their list item, clamped to its indent.
+ *   - List items deeper than maxIndent are flattened to maxIndent.
  * 2. Processes _isTempPropped indicator for the first node, resetting it and removing the propping char.
  * (We can't rely on flatListPostprocessorPlugin because the first node might be merged
  * into the paste target, forgetting _isTempPropped.)
+ * 3. Parses pasted plain text with list markers into flat list items (see parseFlatListText).
+ * The result then goes through steps 1-2 like any other pasted content.
  */
-export function flatListPastePlugin() {
+export function flatListPastePlugin(maxIndent = Infinity) {
   return new Plugin({
     key: new PluginKey("flatListPastePlugin"),
     props: {
+      clipboardTextParser(text, $context, plain) {
+        // When pasting as plain text (e.g. Shift-Paste), leave list markers as-is.
+        return parseFlatListText(
+          text,
+          $context.parent.type.schema,
+          $context.marks(),
+          !plain,
+        );
+      },
       transformPasted(slice, view) {
         // 1. Set indent levels.
 
@@ -25,34 +51,36 @@ export function flatListPastePlugin() {
         const $from = view.state.selection.$from;
         let contextIndent = 0;
         let lastIndent = -1;
-        if (isFlatListNode($from.parent)) {
+        if (
+          isFlatListNode($from.parent) ||
+          isFlatListContinuation($from.parent)
+        ) {
           contextIndent = $from.parent.attrs.indent;
           lastIndent = $from.parent.attrs.indent;
         }
 
-        // Loop over top-level nodes in the slice, setting the indent on list items.
-        // delta is the amount to add to the next node's indent level, or null if reset.
-        let delta: number | null = null;
+        // Compute new indents for the top-level nodes in the slice.
+        const indents: (number | null)[] = [];
+        const continuations: boolean[] = [];
+        slice.content.forEach((child) => {
+          const isContinuation = isFlatListContinuation(child);
+          indents.push(
+            isFlatListNode(child) || isContinuation ? child.attrs.indent : null,
+          );
+          continuations.push(isContinuation);
+        });
+        const newIndents = clampIndents(
+          indents,
+          contextIndent,
+          lastIndent,
+          maxIndent,
+          continuations,
+        );
+
         for (let i = 0; i < slice.content.childCount; i++) {
           const child = slice.content.child(i);
-          if (isFlatListNode(child)) {
-            if (delta === null) {
-              // Start a new list, with this node at indent = contextIndent.
-              delta = contextIndent - child.attrs.indent;
-            }
-
-            let newIndent = child.attrs.indent + delta;
-
-            // Clamp newIndent, also adjusting following indents by the same amount.
-            if (newIndent < 0) {
-              delta += 0 - newIndent;
-              newIndent = 0;
-            } else if (newIndent > lastIndent + 1) {
-              delta += lastIndent + 1 - newIndent;
-              newIndent = lastIndent + 1;
-            }
-            lastIndent = newIndent;
-
+          const newIndent = newIndents[i];
+          if (newIndent !== null) {
             // Update child in the slice.
             // @ts-expect-error Mutating directly for convenience.
             child.attrs.indent = newIndent;
@@ -64,10 +92,6 @@ export function flatListPastePlugin() {
             //   slice.openStart,
             //   slice.openEnd
             // )
-          } else {
-            // Reset list.
-            contextIndent = 0;
-            delta = null;
           }
         }
 
@@ -99,3 +123,121 @@ export function flatListPastePlugin() {
     },
   });
 }
+
+/**
+ * Matches a line of plain text that starts with a list marker,
+ * the same markers as our input rules: `*`, `-`, `+`, `1.`, `[ ]`, `[x]`
+ * (also `- [ ]`, as in Markdown task lists).
+ *
+ * Groups: 1: leading whitespace, 2: task checkbox, 3: bullet, 4: number, 5: content.
+ */
+const listLineRegex =
+  /^([ \t]*)(?:(?:[*+-][ \t]+)?\[([ xX])\]|([*+-])|(\d+)\.)(?:[ \t]+|$)(.*)$/;
+
+/**
+ * Parses pasted plain text into a slice, like ProseMirror's default behavior (one textblock per line),
+ * except that lines starting with a list marker become flat list items.
+ *
+ * A list item's indent is derived from its leading whitespace, relative to the preceding list items.
+ * An indented line without a marker that follows a list item continues that item after a hard break.
+ *
+ * @param parseLists If false, all lines become textblocks.
+ */
+function parseFlatListText(
+  text: string,
+  schema: Schema,
+  marks: readonly Mark[],
+  parseLists: boolean,
+): Slice {
+  const textblockType = schema.topNodeType.contentMatch.defaultType;
+  const hardBreakType = schema.nodes.hardBreak as NodeType | undefined;
+  const createText = (value: string) =>
+    value === "" ? [] : [schema.text(value, marks)];
+
+  const blocks: Node[] = [];
+  // Leading whitespace widths of the current list's indent levels.
+  let indentWidths: number[] = [];
+  // The ListType of the last list item at each indent level, for ordered start numbers.
+  let lastListTypes: ListType[] = [];
+
+  for (const line of text.split(/(?:\r\n?|\n)+/)) {
+    const match = parseLists ? listLineRegex.exec(line) : null;
+    const listType: ListType | null = match
+      ? match[2] !== undefined
+        ? "task"
+        : match[3] !== undefined
+          ? "unordered"
+          : "ordered"
+      : null;
+    const nodeType = listType && schema.nodes[getFlatListNodeName(listType)];
+
+    if (match && listType && nodeType) {
+      const width = getWhitespaceWidth(match[1]);
+      while (
+        indentWidths.length > 0 &&
+        indentWidths[indentWidths.length - 1] > width
+      ) {
+        indentWidths.pop();
+      }
+      if (
+        indentWidths.length === 0 ||
+        indentWidths[indentWidths.length - 1] < width
+      ) {
+        indentWidths.push(width);
+      }
+      const indent = indentWidths.length - 1;
+
+      const attrs: Record<string, unknown> = { indent };
+      if (listType === "task") {
+        attrs.checked = match[2] !== " ";
+      } else if (
+        listType === "ordered" &&
+        lastListTypes[indent] !== "ordered"
+      ) {
+        // Like our input rules, a list starting at another number restarts the numbering.
+        const start = parseIntegerAttr(match[4]);
+        if (start !== undefined && start !== 1) attrs.start = start;
+      }
+      lastListTypes[indent] = listType;
+      lastListTypes.length = indent + 1;
+
+      blocks.push(nodeType.create(attrs, createText(match[5])));
+      continue;
+    }
+
+    const lastBlock = blocks[blocks.length - 1] as Node | undefined;
+    if (
+      hardBreakType &&
+      lastBlock &&
+      isFlatListNode(lastBlock) &&
+      /^[ \t]/.test(line)
+    ) {
+      // Continuation line of the previous list item.
+      blocks[blocks.length - 1] = lastBlock.copy(
+        lastBlock.content.append(
+          Fragment.from([
+            hardBreakType.create(),
+            ...createText(line.trimStart()),
+          ]),
+        ),
+      );
+      continue;
+    }
+
+    // Not a list item. Reset the list.
+    indentWidths = [];
+    lastListTypes = [];
+    if (textblockType)
+      blocks.push(textblockType.create(null, createText(line)));
+  }
+
+  // Leave list items closed, so that they are pasted as whole list items
+  // instead of being merged into the paste target.
+  const first = blocks[0] as Node | undefined;
+  const last = blocks[blocks.length - 1] as Node | undefined;
+  return new Slice(
+    Fragment.from(blocks),
+    first === undefined || isFlatListNode(first) ? 0 : 1,
+    last === undefined || isFlatListNode(last) ? 0 : 1,
+  );
+}
@@ -1,93 +1,472 @@
-import { Node as PMNode } from "@tiptap/pm/model";
-import { Plugin, PluginKey } from "@tiptap/pm/state";
-import { isFlatListNode } from "../list-type";
-import { orderedNodeName } from "./extension-names";
+import { Attrs, Fragment, NodeType, Node as PMNode } from "@tiptap/pm/model";
+import { EditorState, Plugin, PluginKey, Transaction } from "@tiptap/pm/state";
+import { AttrStep } from "@tiptap/pm/transform";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import {
+  getListBehavior,
+  isFlatListContinuation,
+  isFlatListNode,
+} from "../list-type";
 
-// TODO: In case collaboration leads to invalid indent states,
-// also loop over indent levels in this plugin.
+/**
+ * How flatListPostprocessorPlugin repairs list items that violate indent \<= previous indent + 1
+ * (e.g., due to concurrent edits in a collaborative setting):
+ * - "clamp": Set each such item's indent to previous indent + 1, leaving its descendants as-is
+ * (they may be clamped in turn).
+ * - "shift": Shift each such item and the subsequent list items with at least its indent
+ * (its descendants and later siblings) by the same amount, preserving the subtree's shape.
+ */
+export type IndentRepairMode = "clamp" | "shift";
 
 /**
  * ProseMirror plugin that post-processes flat list items after any changes to the document.
  *
- * 1. Sets `counter` attribute on each FlatListOrdered node.
- * 2. Processes _isTempPropped indicators, resetting them and removing the propping chars.
+ * 1. Repairs invalid indents according to indentRepair. The result only depends on the document,
+ * so concurrent collaborators converge on the same repair. Items deeper than maxIndent are flattened
+ * to maxIndent. Continuations (FlatListContinuation) are clamped to the previous list item's indent.
+ * 2. Sets `counter` attribute on each numbered list item (FlatListOrdered node, or a custom ListType with
+ * "ordered" behavior), respecting its `start` attribute. Numbering restarts when the ListType changes.
+ * If formatNumber is given ("hierarchical" numbering), also sets its `number` attribute to
+ * the formatted counter path (the counters of its ordered ancestors, then its own counter).
+ * 3. Processes _isTempPropped indicators, resetting them and removing the propping chars.
+ *
+ * To keep typing fast in large documents, it only processes the lists affected by the transactions:
+ * using their step maps, it finds the changed blocks, then processes each contiguous run of
+ * list blocks (list items and continuations) that contains or borders a changed block.
+ * Changes within a single textblock's content (e.g. typing) don't affect any list, so they are skipped.
+ * Content that arrives without a transaction (e.g. the editor's initial content) is covered by
+ * processing the whole document once, on the first transaction of any kind.
+ *
+ * @param writeCounters If false (FlatListOrdered's "decorations" counters mode), skip step 2:
+ * flatListNumberingPlugin computes the counters instead.
  */
-export function flatListPostprocessorPlugin() {
-  return new Plugin({
-    key: new PluginKey("flatListPostprocessorPlugin"),
-    appendTransaction(_transactions, _oldState, newState) {
-      let tr = newState.tr;
-      let updated = false;
-
-      // Store the last counter values for each parent node and indent level.
-      const lastCounters = new Map<PMNode | null, number[]>();
-      // Positions to delete according to _isTempPropped.
-      const toDelete: number[] = [];
-
-      newState.doc.descendants((node, pos, parent) => {
-        if (isFlatListNode(node)) {
-          let parentLastCounters = lastCounters.get(parent);
-          if (!parentLastCounters) {
-            parentLastCounters = [];
-            lastCounters.set(parent, parentLastCounters);
-          }
+export function flatListPostprocessorPlugin(
+  indentRepair: IndentRepairMode = "clamp",
+  formatNumber: ((path: number[]) => string) | null = null,
+  maxIndent = Infinity,
+  writeCounters = true,
+) {
+  const key = new PluginKey<boolean>("flatListPostprocessorPlugin");
+  return new Plugin<boolean>({
+    key,
+    state: {
+      // Whether the whole document has been processed since the state was created.
+      init: () => false,
+      apply: (tr, processed) => processed || tr.getMeta(key) === true,
+    },
+    appendTransaction(transactions, _oldState, newState) {
+      const processed = key.getState(newState) ?? false;
+      if (processed && !transactions.some((tr) => tr.docChanged)) return null;
+
+      const doc = newState.doc;
+      const processor = new Postprocessor(
+        indentRepair,
+        formatNumber,
+        maxIndent,
+        writeCounters,
+      );
+      if (processed) {
+        processChangedLists(processor, transactions, doc);
+        return createPostprocessorTransaction(processor, newState);
+      }
+
+      processor.processChildren(doc.content, 0, 0, doc.childCount);
+      const tr =
+        createPostprocessorTransaction(processor, newState) ??
+        newState.tr.setMeta("addToHistory", false);
+      return tr.setMeta(key, true);
+    },
+  });
+}
+
+/**
+ * Returns a transaction that applies processor's changes to state, or null if there are none.
+ */
+export function createPostprocessorTransaction(
+  processor: Postprocessor,
+  state: EditorState,
+): Transaction | null {
+  if (processor.attrUpdates.size === 0 && processor.toDelete.size === 0) {
+    return null;
+  }
+
+  const tr = state.tr;
+  // setNodeMarkup doesn't change node sizes, so these positions stay valid.
+  for (const [pos, attrs] of processor.attrUpdates) {
+    tr.setNodeMarkup(pos, undefined, attrs);
+  }
+  // Delete in reverse order so we don't need to transform positions.
+  const toDelete = [...processor.toDelete].sort((a, b) => b - a);
+  for (const pos of toDelete) tr.delete(pos, pos + 1);
+
+  // We need to restore the storedMarks per https://discuss.prosemirror.net/t/does-tr-setnodeattribute-reset-stored-marks/6147
+  // Otherwise hitting enter after an ordered list item loses them.
+  tr.setStoredMarks(state.storedMarks);
+  tr.setMeta("addToHistory", false);
+  return tr;
+}
+
+/**
+ * A contiguous run of list blocks (or a changed range of other blocks): the children [start, end)
+ * of parent, spanning [from, to) in the document.
+ */
+export interface ListRun {
+  parent: PMNode;
+  start: number;
+  end: number;
+  from: number;
+  to: number;
+}
+
+/**
+ * Processes the contiguous runs of list blocks in doc that the transactions changed
+ * (see flatListPostprocessorPlugin).
+ *
+ * @returns The processed runs.
+ */
+export function processChangedLists(
+  processor: Postprocessor,
+  transactions: readonly Transaction[],
+  doc: PMNode,
+): ListRun[] {
+  const runs = getChangedLists(transactions, doc);
+  for (const { parent, start, end, from } of runs) {
+    processor.processChildren(parent.content, from, start, end);
+  }
+  return runs;
+}
+
+/**
+ * Returns the contiguous runs of list blocks in doc that the transactions changed
+ * (see flatListPostprocessorPlugin), each once.
+ */
+export function getChangedLists(
+  transactions: readonly Transaction[],
+  doc: PMNode,
+): ListRun[] {
+  const runs: ListRun[] = [];
+  // Return each run once, even if several changed ranges touch it.
+  const seenRuns = new Set<string>();
+  for (const { from, to } of getChangedRanges(transactions)) {
+    const $from = doc.resolve(from);
+    const $to = doc.resolve(to);
+    let depth = $from.sharedDepth(to);
+    if ($from.node(depth).inlineContent) depth--;
+    const parent = $from.node(depth);
+
+    // Expand the changed children [start, end) to the surrounding runs of list blocks,
+    // since their counters and indents depend on each other.
+    let start = $from.index(depth);
+    let end = $to.indexAfter(depth);
+    while (start > 0 && isListBlock(parent.child(start - 1))) start--;
+    while (end < parent.childCount && isListBlock(parent.child(end))) {
+      end++;
+    }
+
+    const startPos = $from.posAtIndex(start, depth);
+    const key = `${startPos}:${end}`;
+    if (seenRuns.has(key)) continue;
+    seenRuns.add(key);
+    runs.push({
+      parent,
+      start,
+      end,
+      from: startPos,
+      to: $from.posAtIndex(end, depth),
+    });
+  }
+  return runs;
+}
+
+/**
+ * Updates a plugin's DecorationSet of list decorations for tr, recomputing only the runs of list blocks
+ * that tr changed (see flatListPostprocessorPlugin).
+ *
+ * @param compute Computes the decorations for a run, including blocks nested in its non-list blocks.
+ */
+export function updateListDecorations(
+  decorations: DecorationSet,
+  tr: Transaction,
+  compute: (run: ListRun) => Decoration[],
+): DecorationSet {
+  if (!tr.docChanged) return decorations;
+  const mapped = decorations.map(tr.mapping, tr.doc);
+  // Skip runs nested inside other changed runs, which are recomputed as part of them.
+  const runs = getChangedLists([tr], tr.doc).filter(
+    (run, _i, all) =>
+      !all.some(
+        (other) =>
+          other !== run && other.from <= run.from && run.to <= other.to,
+      ),
+  );
+  if (runs.length === 0) return mapped;
+  return mapped
+    .remove(runs.flatMap((run) => findDecorationsIn(mapped, run)))
+    .add(tr.doc, runs.flatMap(compute));
+}
+
+/**
+ * Returns the decorations that lie entirely within [from, to).
+ */
+export function findDecorationsIn(
+  decorations: DecorationSet,
+  { from, to }: { from: number; to: number },
+): Decoration[] {
+  return decorations
+    .find(from, to)
+    .filter((decoration) => decoration.from >= from && decoration.to <= to);
+}
+
+/**
+ * Returns the ranges of the final document that the transactions changed, sorted and merged,
+ * omitting changes within a single textblock's content.
+ */
+function getChangedRanges(
+  transactions: readonly Transaction[],
+): { from: number; to: number }[] {
+  let ranges: { from: number; to: number }[] = [];
+  for (const tr of transactions) {
+    tr.steps.forEach((step, i) => {
+      const map = step.getMap();
+      const before = tr.docs[i];
+      const after = tr.docs[i + 1] ?? tr.doc;
+
+      ranges = ranges.map(({ from, to }) => ({
+        from: map.map(from, -1),
+        to: map.map(to, 1),
+      }));
+      if (step instanceof AttrStep) {
+        // Attr steps have an empty step map. Mark the node's opening token as changed.
+        ranges.push({ from: step.pos, to: step.pos + 1 });
+      }
+      map.forEach((oldStart, oldEnd, newStart, newEnd) => {
+        if (
+          !isWithinTextblock(before, oldStart, oldEnd) ||
+          !isWithinTextblock(after, newStart, newEnd)
+        ) {
+          ranges.push({ from: newStart, to: newEnd });
+        }
+      });
+      ranges = mergeRanges(ranges);
+    });
+  }
+  return ranges;
+}
+
+function isWithinTextblock(doc: PMNode, from: number, to: number): boolean {
+  const $from = doc.resolve(from);
+  return $from.parent.inlineContent && to <= $from.end();
+}
+
+/**
+ * Sorts ranges and merges overlapping or adjacent ones,
+ * so that e.g. the steps updating a whole list collapse into a single range.
+ */
+function mergeRanges(
+  ranges: { from: number; to: number }[],
+): { from: number; to: number }[] {
+  if (ranges.length <= 1) return ranges;
+  ranges.sort((a, b) => a.from - b.from);
+  const merged = [ranges[0]];
+  for (const range of ranges.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.from <= last.to) last.to = Math.max(last.to, range.to);
+    else merged.push({ ...range });
+  }
+  return merged;
+}
+
+function isListBlock(node: PMNode): boolean {
+  return isFlatListNode(node) || isFlatListContinuation(node);
+}
+
+/**
+ * Computes flatListPostprocessorPlugin's changes for ranges of children.
+ *
+ * The results only depend on the document, so processing a run twice (e.g. once directly
+ * and once inside a changed ancestor) is harmless.
+ */
+export class Postprocessor {
+  /** Updated attrs for nodes by position. */
+  readonly attrUpdates = new Map<number, Attrs>();
+  /** Positions to delete according to _isTempPropped. */
+  readonly toDelete = new Set<number>();
+  /** The computed `counter` and `number` of each numbered list item by position. */
+  readonly counters = new Map<
+    number,
+    { counter: number; number: string | null }
+  >();
+
+  /**
+   * @param writeCounters Whether to include the counters in attrUpdates. If false
+   * (FlatListOrdered's "decorations" counters mode), they are only stored in counters.
+   */
+  constructor(
+    private readonly indentRepair: IndentRepairMode,
+    private readonly formatNumber: ((path: number[]) => string) | null,
+    private readonly maxIndent: number,
+    private readonly writeCounters = true,
+  ) {}
+
+  /**
+   * Processes the children [start, end) of a node with the given content, where pos is
+   * the position of the child at start. Other blocks in that range are processed recursively.
+   *
+   * @returns The position after the child at end - 1.
+   */
+  processChildren(
+    content: Fragment,
+    pos: number,
+    start: number,
+    end: number,
+  ): number {
+    // The last counter values for each indent level, or null if not in a list.
+    let lastCounters: number[] | null = null;
+    // The node types of lastCounters' list items, since numbering restarts when the ListType changes.
+    let lastCounterTypes: NodeType[] = [];
+    // The indent-repair state, or null if not in a list.
+    let indentState: IndentState | null = null;
+
+    for (let i = start; i < end; i++) {
+      const node = content.child(i);
+      if (isFlatListNode(node)) {
+        if (lastCounters === null) {
+          lastCounters = [];
+          lastCounterTypes = [];
+        }
+        indentState ??= { lastIndent: -1, shifts: [] };
+        let nodeAttrs = node.attrs;
 
-          let nodeAttrs = node.attrs;
-
-          // Indents.
-          const indent = nodeAttrs.indent as number;
-          if (node.type.name === orderedNodeName) {
-            const counterValue = (parentLastCounters[indent] ?? 0) + 1;
-
-            // If the node’s current counter attribute doesn't match the computed value, update it.
-            if (nodeAttrs.counter !== counterValue) {
-              nodeAttrs = { ...nodeAttrs, counter: counterValue };
-              tr = tr.setNodeMarkup(pos, undefined, nodeAttrs);
-              updated = true;
-            }
-
-            // Update the counter value for this indent level.
-            parentLastCounters[indent] = counterValue;
-            // Reset the counter value for higher indent levels.
-            parentLastCounters.length = indent + 1;
-          } else {
-            // Non-ordered list block. Reset the counter value for this and higher indent levels.
-            parentLastCounters.length = indent;
+        // Indents.
+        const indent = repairIndent(
+          nodeAttrs.indent as number,
+          indentState,
+          this.indentRepair,
+          this.maxIndent,
+        );
+        if (nodeAttrs.indent !== indent) {
+          nodeAttrs = { ...nodeAttrs, indent };
+        }
+
+        // Counters.
+        if (getListBehavior(node) === "ordered") {
+          const lastCounter =
+            lastCounterTypes[indent] === node.type
+              ? (lastCounters[indent] ?? 0)
+              : 0;
+          const counterValue =
+            (nodeAttrs.start as number | null) ?? lastCounter + 1;
+
+          // If the node’s current counter attribute doesn't match the computed value, update it.
+          if (this.writeCounters && nodeAttrs.counter !== counterValue) {
+            nodeAttrs = { ...nodeAttrs, counter: counterValue };
           }
 
-          // Temp prop handling: record propping char for deletion and reset _isTempPropped.
-          if (nodeAttrs._isTempPropped) {
-            nodeAttrs = { ...nodeAttrs, _isTempPropped: undefined };
-            tr = tr.setNodeMarkup(pos, undefined, nodeAttrs);
-            toDelete.push(pos + 1);
-            updated = true;
+          // Update the counter value for this indent level.
+          lastCounters[indent] = counterValue;
+          lastCounterTypes[indent] = node.type;
+          // Reset the counter value for higher indent levels.
+          lastCounters.length = indent + 1;
+
+          // Hierarchical number. lastCounters now holds the counters of this node's
+          // ordered ancestors (non-ordered ancestors leave holes, which filter skips).
+          const numberValue = this.formatNumber
+            ? this.formatNumber(lastCounters.filter(() => true))
+            : null;
+          if (
+            this.writeCounters &&
+            (nodeAttrs.number ?? null) !== numberValue
+          ) {
+            nodeAttrs = { ...nodeAttrs, number: numberValue };
           }
+          this.counters.set(pos, {
+            counter: counterValue,
+            number: numberValue,
+          });
         } else {
-          // Not a list block. Reset all counters.
-          lastCounters.delete(parent);
+          // Non-ordered list block. Reset the counter value for this and higher indent levels.
+          lastCounters.length = indent;
         }
 
-        // Recurse into nodes that could have flat-list-item descendants.
-        return !node.inlineContent;
-      });
-
-      if (toDelete.length > 0) {
-        // Delete in reverse order so we don't need to transform positions.
-        toDelete.reverse();
-        for (const pos of toDelete) tr.delete(pos, pos + 1);
-        updated = true;
-      }
+        // Temp prop handling: record propping char for deletion and reset _isTempPropped.
+        if (nodeAttrs._isTempPropped) {
+          nodeAttrs = { ...nodeAttrs, _isTempPropped: undefined };
+          this.toDelete.add(pos + 1);
+        }
 
-      // If any node was updated, apply the transaction.
-      if (updated) {
-        // We need to restore the storedMarks per https://discuss.prosemirror.net/t/does-tr-setnodeattribute-reset-stored-marks/6147
-        // Otherwise hitting enter after an ordered list item loses them.
-        tr.setStoredMarks(newState.storedMarks);
-        tr.setMeta("addToHistory", false);
-        return tr;
+        if (nodeAttrs !== node.attrs) this.attrUpdates.set(pos, nodeAttrs);
+      } else if (isFlatListContinuation(node) && indentState) {
+        // Continuation of a previous list item. Clamp its indent to the previous list item's,
+        // then continue the list, resetting the counter values for higher indent levels.
+        const indent = Math.min(
+          Math.max(node.attrs.indent as number, 0),
+          indentState.lastIndent,
+        );
+        if (node.attrs.indent !== indent) {
+          this.attrUpdates.set(pos, { ...node.attrs, indent });
+        }
+        indentState.lastIndent = indent;
+        lastCounters!.length = indent + 1;
       } else {
-        return null;
+        // Not a list block. Reset all counters and indents.
+        lastCounters = null;
+        indentState = null;
+        // Recurse into nodes that could have flat-list-item descendants.
+        if (!node.inlineContent) {
+          this.processChildren(node.content, pos + 1, 0, node.childCount);
+        }
       }
-    },
-  });
+
+      pos += node.nodeSize;
+    }
+    return pos;
+  }
+}
+
+interface IndentState {
+  /** The (repaired) indent of the previous list item, or -1 if none. */
+  lastIndent: number;
+  /**
+   * For "shift" mode: the shifted groups that the current item may belong to, outermost first.
+   * Each has its first item's original indent and the total shift applied to its items.
+   */
+  shifts: { rootIndent: number; delta: number }[];
+}
+
+/**
+ * Returns the repaired indent for the next list item with the given (original) indent,
+ * updating state.
+ */
+function repairIndent(
+  indent: number,
+  state: IndentState,
+  mode: IndentRepairMode,
+  maxIndent: number,
+): number {
+  let newIndent = Math.max(indent, 0);
+  if (mode === "shift") {
+    // Exit shifted subtrees that this item does not belong to.
+    while (
+      state.shifts.length > 0 &&
+      indent < state.shifts[state.shifts.length - 1].rootIndent
+    ) {
+      state.shifts.pop();
+    }
+    const delta = state.shifts[state.shifts.length - 1]?.delta ?? 0;
+    newIndent = Math.max(indent + delta, 0);
+    if (newIndent > state.lastIndent + 1) {
+      // Shift this item, its descendants, and its later siblings.
+      state.shifts.push({
+        rootIndent: indent,
+        delta: delta + state.lastIndent + 1 - newIndent,
+      });
+      newIndent = state.lastIndent + 1;
+    }
+  } else {
+    newIndent = Math.min(newIndent, state.lastIndent + 1);
+  }
+  // Flatten items deeper than maxIndent.
+  newIndent = Math.min(newIndent, maxIndent);
+  state.lastIndent = newIndent;
+  return newIndent;
 }
@@ -0,0 +1,57 @@
+import { mergeAttributes } from "@tiptap/core";
+import type { FlatListRenderOptions } from "../styling";
+
+const classPrefix = "flat-list";
+
+/**
+ * Returns the CSS length of the given number of indent levels, plus offset pixels.
+ */
+export function indentLength(indent: number, offset = 0): string {
+  if (indent === 0) return `${offset}px`;
+  const length = `var(--flat-list-indent, 20px) * ${indent}`;
+  return offset === 0 ? `calc(${length})` : `calc(${length} + ${offset}px)`;
+}
+
+/**
+ * Returns the attrs for a list item or continuation's wrapper element,
+ * merging options.HTMLAttributes with (for "classes" styling) our classes, or (for "inline" styling)
+ * the given inline style.
+ *
+ * @param type The list item's ListType, or "continuation".
+ */
+export function getWrapperAttrs(
+  options: FlatListRenderOptions,
+  type: string,
+  indent: number,
+  style: string,
+  ...extraAttrs: Record<string, any>[]
+): Record<string, any> {
+  if (options.styling === "inline") {
+    return mergeAttributes(options.HTMLAttributes, ...extraAttrs, { style });
+  }
+  return mergeAttributes(options.HTMLAttributes, ...extraAttrs, {
+    class:
+      type === "continuation"
+        ? `${classPrefix}-continuation ${classPrefix}-indent-${indent}`
+        : `${classPrefix} ${classPrefix}-${type} ${classPrefix}-indent-${indent}`,
+  });
+}
+
+/**
+ * Removes our classes from element (the indent class, or all), removing the class attr if it becomes empty.
+ */
+export function removeFlatListClasses(
+  element: HTMLElement,
+  which: "indent" | "all",
+): void {
+  for (const className of Array.from(element.classList)) {
+    if (
+      which === "all"
+        ? className === classPrefix || className.startsWith(`${classPrefix}-`)
+        : className.startsWith(`${classPrefix}-indent-`)
+    ) {
+      element.classList.remove(className);
+    }
+  }
+  if (element.classList.length === 0) element.removeAttribute("class");
+}
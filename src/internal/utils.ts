@@ -1,18 +1,33 @@
-import { InputRule, InputRuleFinder } from "@tiptap/core";
-import { NodeType } from "@tiptap/pm/model";
-import { isFlatListNode, ListType } from "../list-type";
-import { taskNodeName } from "./extension-names";
+import {
+  Editor,
+  ExtendedRegExpMatchArray,
+  InputRule,
+  InputRuleFinder,
+} from "@tiptap/core";
+import { Node, NodeType } from "@tiptap/pm/model";
+import { isFlatListContinuation, isFlatListNode, ListType } from "../list-type";
+import { continuationNodeName, coreExtensionName } from "./extension-names";
 
 /**
  * Computes the indent level of an `<li>`.
  * - If it's our own rendered `<li>`, use the data-list-indent attr.
- * - Else (e.g. pasted content) check the nesting level.
+ * - Else if it has an aria-level attr (Google Docs), use that.
+ * - Else (e.g. pasted content) check the nesting level, plus the LI's extra margin-left
+ * relative to its sibling LIs (Google Docs and some other programs indent LIs with margins
+ * instead of nesting lists).
+ *
+ * The result is at most maxIndent (see getMaxIndent), flattening deeper items.
  */
-export function computeIndent(element: HTMLElement) {
+export function computeIndent(element: HTMLElement, maxIndent = Infinity) {
   const storedIndent = parseIntegerAttr(
     element.getAttribute("data-list-indent"),
   );
-  if (storedIndent !== undefined) return storedIndent;
+  if (storedIndent !== undefined) return Math.min(storedIndent, maxIndent);
+
+  const ariaLevel = parseIntegerAttr(element.getAttribute("aria-level"));
+  if (ariaLevel !== undefined) {
+    return Math.min(Math.max(ariaLevel - 1, 0), maxIndent);
+  }
 
   // Count the number of ancestor ol/ul elements.
   let count = -1;
@@ -23,15 +38,309 @@ export function computeIndent(element: HTMLElement) {
   ) {
     if (ancestor.tagName === "UL" || ancestor.tagName === "OL") count++;
   }
-  return Math.max(count, 0);
+  return Math.min(Math.max(count, 0) + computeMarginIndent(element), maxIndent);
+}
+
+/**
+ * The margin-left of one indent level in pasted HTML, in px: 36pt, as in Google Docs.
+ */
+const pastedIndentWidth = 48;
+
+/**
+ * Returns the number of indent levels represented by an LI's margin-left,
+ * relative to the smallest margin-left of its sibling LIs.
+ */
+function computeMarginIndent(element: HTMLElement): number {
+  const margin = parseCSSLength(element.style.marginLeft);
+  if (margin === 0 || !element.parentElement) return 0;
+
+  let minMargin = margin;
+  for (const sibling of Array.from(element.parentElement.children)) {
+    if (sibling.tagName !== "LI") continue;
+    minMargin = Math.min(
+      minMargin,
+      parseCSSLength((sibling as HTMLElement).style.marginLeft),
+    );
+  }
+  return Math.max(Math.round((margin - minMargin) / pastedIndentWidth), 0);
+}
+
+/**
+ * Converts a CSS length in px, pt, in, or cm to px. Other values (including "") are treated as 0.
+ */
+function parseCSSLength(value: string): number {
+  const match = /^(-?[\d.]+)(px|pt|in|cm)$/.exec(value.trim());
+  if (!match) return 0;
+  const number = Number.parseFloat(match[1]);
+  if (!Number.isFinite(number)) return 0;
+  switch (match[2]) {
+    case "pt":
+      return (number * 4) / 3;
+    case "in":
+      return number * 96;
+    case "cm":
+      return (number * 96) / 2.54;
+    default:
+      return number;
+  }
+}
+
+/**
+ * Returns FlatListCore's maxIndent option, or Infinity if it is null or there is no editor
+ * (e.g. in Tiptap's getSchema).
+ */
+export function getMaxIndent(editor: Editor | undefined): number {
+  const coreOptions = editor?.extensionManager.extensions.find(
+    (extension) => extension.name === coreExtensionName,
+  )?.options as { maxIndent?: number | null } | undefined;
+  return coreOptions?.maxIndent ?? Infinity;
 }
 
 export function computeChecked(element: HTMLElement) {
-  const dataChecked = element.getAttribute("data-checked");
+  const dataChecked =
+    element.getAttribute("data-checked") ??
+    // Google Docs checklist items.
+    element.getAttribute("aria-checked");
+  if (dataChecked === null) {
+    // E.g. GitHub-rendered Markdown.
+    return getLeadingCheckbox(element)?.hasAttribute("checked") ?? false;
+  }
 
   return dataChecked === "" || dataChecked === "true";
 }
 
+/**
+ * Whether the given `<li>` is a task list item:
+ * - Our own rendered HTML: the wrapping UL has data-task-list.
+ * - Tiptap's TaskList/TaskItem: `ul[data-type="taskList"] > li[data-type="taskItem"]`.
+ * - Google Docs checklist items: `li[role="checkbox"]`.
+ * - Any LI that starts with a checkbox input (see getLeadingCheckbox), e.g. GitHub-rendered Markdown
+ * (`li.task-list-item > input[type=checkbox]`).
+ */
+export function isTaskListItem(element: HTMLElement): boolean {
+  const list = element.parentElement;
+  const attrTaskList = list?.getAttribute("data-task-list");
+  return (
+    attrTaskList === "" ||
+    attrTaskList === "true" ||
+    list?.getAttribute("data-type") === "taskList" ||
+    element.getAttribute("data-type") === "taskItem" ||
+    element.getAttribute("role") === "checkbox" ||
+    getLeadingCheckbox(element) !== null
+  );
+}
+
+/**
+ * Returns the checkbox input at the start of element (an LI or its content element), or null if none.
+ *
+ * The checkbox may also be the first thing in a leading `<p>` (loose Markdown lists)
+ * or `<label>` (Tiptap's TaskItem and our own rendered HTML).
+ */
+export function getLeadingCheckbox(
+  element: HTMLElement,
+): HTMLInputElement | null {
+  let first = getFirstNonCollapsibleChild(element);
+  if (
+    first instanceof HTMLElement &&
+    (first.tagName === "P" || first.tagName === "LABEL")
+  ) {
+    first = getFirstNonCollapsibleChild(first);
+  }
+  if (
+    first instanceof HTMLElement &&
+    first.tagName === "INPUT" &&
+    first.getAttribute("type")?.toLowerCase() === "checkbox"
+  ) {
+    return first as HTMLInputElement;
+  }
+  return null;
+}
+
+/**
+ * Returns the first child of element (starting from `from`) that is not collapsible whitespace or a comment.
+ */
+function getFirstNonCollapsibleChild(
+  element: HTMLElement,
+  from: ChildNode | null = element.firstChild,
+): ChildNode | null {
+  for (let child = from; child !== null; child = child.nextSibling) {
+    if (child instanceof Text && isCollapsibleNode(child)) continue;
+    // Ignore comments etc.
+    if (!(child instanceof Text) && !(child instanceof HTMLElement)) continue;
+    return child;
+  }
+  return null;
+}
+
+/**
+ * A paragraph pasted from Microsoft Word that is a list item (see parseWordListItem).
+ */
+export interface WordListItem {
+  listType: ListType;
+  indent: number;
+  checked: boolean;
+  /** The element containing the list marker text, which should not be parsed as content. */
+  marker: HTMLElement | null;
+  /** The marker text without whitespace, e.g. "3." (empty for symbol font markers). */
+  markerText: string;
+}
+
+/**
+ * Checkbox glyphs of the symbol fonts that Word uses for list markers, by font and checked state.
+ */
+const wordSymbolCheckboxes: Record<string, [string, string]> = {
+  // o ❏, q ❑, ¨ ◻; x ⌧, ý ☒, þ ☑
+  wingdings: ["oq\u00a8", "x\u00fd\u00fe"],
+  // £ ☐; R ☑, S ☒, T ☒
+  "wingdings 2": ["\u00a3", "RST"],
+};
+
+/**
+ * If element is a paragraph pasted from Microsoft Word that is a list item, returns its info, else null.
+ *
+ * Word pastes each list item as a paragraph with a style like "mso-list: l0 level2 lfo1"
+ * (list l0, indent level 2), whose list marker is plain text in a span with style "mso-list: Ignore".
+ * The ListType is inferred from that marker: "1.", "a)", etc. are ordered, checkboxes are tasks,
+ * and anything else (e.g. bullets) is unordered. Markers in a symbol font (Wingdings, Symbol)
+ * are glyphs rather than text, so they are only checked for that font's checkboxes.
+ */
+export function parseWordListItem(element: HTMLElement): WordListItem | null {
+  const match = /mso-list:\s*l\d+\s+level(\d+)/i.exec(
+    element.getAttribute("style") ?? "",
+  );
+  if (!match) return null;
+
+  let marker: HTMLElement | null = null;
+  for (const span of Array.from(element.querySelectorAll("span"))) {
+    if (/mso-list:\s*ignore/i.test(span.getAttribute("style") ?? "")) {
+      marker = span;
+      break;
+    }
+  }
+  let markerText = (marker?.textContent ?? "").replace(/[\s\u00a0]/g, "");
+
+  let listType: ListType = "unordered";
+  let checked = false;
+  const symbolFont =
+    marker === null ? null : getWordSymbolFont(marker, element);
+  if (symbolFont !== null) {
+    // Word may map the glyph to the Private Use Area (U+F020-U+F0FF).
+    const glyph = markerText.replace(/[\uf020-\uf0ff]/g, (char) =>
+      String.fromCharCode(char.charCodeAt(0) - 0xf000),
+    );
+    const checkboxes = wordSymbolCheckboxes[symbolFont];
+    if (glyph.length === 1 && checkboxes !== undefined) {
+      if (checkboxes[0].includes(glyph)) {
+        listType = "task";
+      } else if (checkboxes[1].includes(glyph)) {
+        listType = "task";
+        checked = true;
+      }
+    }
+    markerText = "";
+  } else if (/^[\u2610\u2611\u2612]$/.test(markerText)) {
+    // ☐, ☑, ☒
+    listType = "task";
+    checked = markerText !== "\u2610";
+  } else if (/^\(?(\d+|[a-z]+)[.)]$/i.test(markerText)) {
+    listType = "ordered";
+  }
+
+  return {
+    listType,
+    indent: Math.max(Number.parseInt(match[1]) - 1, 0),
+    checked,
+    marker,
+    markerText,
+  };
+}
+
+/**
+ * Returns the lowercase symbol font ("wingdings", "wingdings 2", "wingdings 3" or "symbol")
+ * that a Word list marker is set in, or null if it is set in a text font.
+ * The font is usually on a span around the marker span.
+ */
+function getWordSymbolFont(
+  marker: HTMLElement,
+  element: HTMLElement,
+): string | null {
+  for (
+    let node: HTMLElement | null = marker;
+    node !== null && node !== element;
+    node = node.parentElement
+  ) {
+    const match = /(?:^|;)\s*font-family:\s*(["']?)([^;"']+)\1/i.exec(
+      node.getAttribute("style") ?? "",
+    );
+    if (!match) continue;
+    const font = match[2].split(",")[0].trim().toLowerCase();
+    return /^(wingdings( [23])?|symbol)$/.test(font) ? font : null;
+  }
+  return null;
+}
+
+/**
+ * Whether a Word list item paragraph at the given indent continues the numbering of an earlier
+ * ordered Word list item paragraph, i.e. the nearest earlier one at its indent, with only deeper
+ * list item paragraphs in between, is ordered.
+ */
+export function continuesWordOrderedList(
+  element: HTMLElement,
+  indent: number,
+): boolean {
+  for (
+    let prev = element.previousElementSibling;
+    prev instanceof HTMLElement;
+    prev = prev.previousElementSibling
+  ) {
+    const item = parseWordListItem(prev);
+    if (item === null || item.indent < indent) return false;
+    if (item.indent === indent) return item.listType === "ordered";
+  }
+  return false;
+}
+
+/**
+ * contentElement for parse rules that use parseWordListItem: returns a copy without the list marker.
+ * The element itself keeps its marker, which continuesWordOrderedList reads for later items.
+ */
+export function removeWordListMarker(element: HTMLElement): HTMLElement {
+  const copy = element.cloneNode(true) as HTMLElement;
+  parseWordListItem(copy)?.marker?.remove();
+  return copy;
+}
+
+export function computeStatus(element: HTMLElement): string | null {
+  return element.getAttribute("data-status") || null;
+}
+
+export function computeCollapsed(element: HTMLElement) {
+  const dataCollapsed = element.getAttribute("data-collapsed");
+
+  return dataCollapsed === "" || dataCollapsed === "true";
+}
+
+/**
+ * Computes the start attr (custom number) of an ordered `<li>`.
+ * - If it's our own rendered `<li>`, use the data-list-start attr.
+ * - Else (e.g. pasted content) use the LI's value attr, or the OL's start attr if this is its first LI.
+ */
+export function computeStart(element: HTMLElement): number | null {
+  if (element.hasAttribute("data-list-indent")) {
+    return parseIntegerAttr(element.getAttribute("data-list-start")) ?? null;
+  }
+
+  const value = parseIntegerAttr(element.getAttribute("value"));
+  if (value !== undefined) return value;
+
+  const ol = element.parentElement;
+  if (ol && ol.firstElementChild === element) {
+    const start = parseIntegerAttr(ol.getAttribute("start"));
+    if (start !== undefined && start !== 1) return start;
+  }
+  return null;
+}
+
 export function parseIntegerAttr(attr: string | null): number | undefined {
   if (attr === null) return undefined;
   const indent = Number.parseInt(attr);
@@ -39,11 +348,76 @@ export function parseIntegerAttr(attr: string | null): number | undefined {
   return indent;
 }
 
+/**
+ * Computes new indents for a sequence of blocks, following flatListPastePlugin's rules
+ * (matching Notion's apparent behavior):
+ * - The first list item matches contextIndent. After a non-list block, the next list item instead gets indent 0.
+ * - Subsequent list items preserve their indent relative to their predecessor,
+ * clamped to [0, predecessor + 1].
+ * - Continuations are shifted by the same amount as their list item, clamped to [0, predecessor].
+ *
+ * @param indents The blocks' current indents, or null for blocks that are not list items or continuations.
+ * @param contextIndent The indent of the list item preceding the sequence, or 0 if none.
+ * @param lastIndent The indent of the list item preceding the sequence, or -1 if none.
+ * @param maxIndent The maximum indent (FlatListCore's maxIndent option). Deeper list items are
+ * flattened to this indent, without affecting the relative indents of the following list items.
+ * @param continuations Whether each block is a flat list continuation (default: none are).
+ * @returns The new indents, with null for non-list blocks.
+ */
+export function clampIndents(
+  indents: readonly (number | null)[],
+  contextIndent = 0,
+  lastIndent = -1,
+  maxIndent = Infinity,
+  continuations: readonly boolean[] = [],
+): (number | null)[] {
+  // delta is the amount to add to the next node's indent level, or null if reset.
+  let delta: number | null = null;
+  return indents.map((indent, i) => {
+    if (indent === null) {
+      // Reset list.
+      contextIndent = 0;
+      delta = null;
+      return null;
+    }
+
+    if (delta === null) {
+      // Start a new list, with this node at indent = contextIndent.
+      delta = contextIndent - indent;
+    }
+
+    if (continuations[i]) {
+      // Keep the list item's delta, but don't indent past the list item.
+      const newIndent = Math.min(
+        Math.max(indent + delta, 0),
+        Math.max(lastIndent, 0),
+      );
+      lastIndent = newIndent;
+      return Math.min(newIndent, maxIndent);
+    }
+
+    let newIndent = indent + delta;
+
+    // Clamp newIndent, also adjusting following indents by the same amount.
+    if (newIndent < 0) {
+      delta += 0 - newIndent;
+      newIndent = 0;
+    } else if (newIndent > lastIndent + 1) {
+      delta += lastIndent + 1 - newIndent;
+      newIndent = lastIndent + 1;
+    }
+    lastIndent = newIndent;
+    return Math.min(newIndent, maxIndent);
+  });
+}
+
 /**
  * Given an LI output by one of our renderHTML() functions or joinListElement, returns its content element (the element containing the 0 in renderHTML).
  * - For ordered and unordered list items, the LI itself.
  * - For task list items that are shaped like a renderHTML output, the div that is the last child of the LI;
- * else the LI itself. (Latter happens when it's copied content that got simplified by joinListElements.)
+ * else the LI itself. (Latter happens when it's copied content that got simplified by joinListElements,
+ * or pasted task list items that start with a bare checkbox.)
+ * Tiptap's TaskItem has the same shape as our renderHTML output (`<li><label>...</label><div>...</div></li>`).
  */
 export function getContentElement(
   listType: ListType,
@@ -51,10 +425,12 @@ export function getContentElement(
 ): HTMLElement {
   if (
     listType === "task" &&
-    li.firstElementChild instanceof HTMLLabelElement &&
-    li.lastElementChild instanceof HTMLElement
+    // Check tagName instead of using instanceof, so that this also works with an injected Document
+    // (see JoinListDOMSerializer.getDocHTML).
+    li.firstElementChild?.tagName === "LABEL" &&
+    li.lastElementChild?.tagName === "DIV"
   ) {
-    return li.lastElementChild;
+    return li.lastElementChild as HTMLElement;
   } else return li;
 }
 
@@ -62,9 +438,13 @@ export function getContentElement(
  * Whether the given element has a child list with no non-collapsible content beforehand.
  * These need special handling in parseHTML to prevent ProseMirror from ignoring the LI
  * and just parsing its child list.
+ *
+ * @param ignoreCheckbox Whether to ignore a leading checkbox input (see getLeadingCheckbox),
+ * for task list items whose checkbox is removed by their parse rule.
  */
 export function hasNoContentBeforeChildList(
   contentElement: HTMLElement,
+  ignoreCheckbox = false,
 ): boolean {
   // If an li contains a nested list but no (non-collapsible) leading content,
   // ProseMirror will parse the whole thing as one flat list node.
@@ -83,6 +463,12 @@ export function hasNoContentBeforeChildList(
     // (hence will be ignored during parsing).
     childToCheck = contentElement.childNodes.item(1);
   }
+  if (ignoreCheckbox && childToCheck === getLeadingCheckbox(contentElement)) {
+    childToCheck = getFirstNonCollapsibleChild(
+      contentElement,
+      childToCheck!.nextSibling,
+    );
+  }
 
   return (
     childToCheck instanceof HTMLElement &&
@@ -101,8 +487,15 @@ export function hasNoContentBeforeChildList(
  * Even a single paragraph causes issues after
  * https://github.com/ProseMirror/prosemirror-model/commit/cfd749b32aa6409617a3513c829e46012f4869fa:
  * it's moved out of the list-item for failing to conform to the schema.
+ *
+ * @param continuationIndent If not null, paragraphs after the LI's leading content are instead
+ * kept and marked as continuations with this indent (see computeContinuationIndent).
+ * ProseMirror then moves them out of the list item, parsing them as FlatListContinuation nodes.
  */
-export function replaceParagraphsWithBreaks(element: HTMLElement): void {
+export function replaceParagraphsWithBreaks(
+  element: HTMLElement,
+  continuationIndent: number | null = null,
+): void {
   let hasPChild = false;
   for (const child of element.children) {
     if (child.tagName === "P") {
@@ -112,11 +505,27 @@ export function replaceParagraphsWithBreaks(element: HTMLElement): void {
   }
   if (!hasPChild) return;
 
+  if (continuationIndent !== null) {
+    let hasContentBefore = false;
+    for (const child of Array.from(element.childNodes)) {
+      if (child instanceof HTMLElement && child.tagName === "P") {
+        if (hasContentBefore) {
+          child.setAttribute("data-list-continuation", "");
+          child.setAttribute("data-list-indent", String(continuationIndent));
+        }
+        hasContentBefore = true;
+      } else if (!isCollapsibleNode(child)) {
+        hasContentBefore = true;
+      }
+    }
+  }
+
   // Replace each paragraph with its content, followed by a BR if needed to show a break.
   const originalChildNodes = Array.from(element.childNodes);
   for (let i = 0; i < originalChildNodes.length; i++) {
     const child = originalChildNodes[i];
     if (!(child instanceof HTMLElement && child.tagName === "P")) continue;
+    if (child.hasAttribute("data-list-continuation")) continue;
 
     // Move the paragraph's content to the parent
     const grandchildren = Array.from(child.childNodes);
@@ -128,9 +537,10 @@ export function replaceParagraphsWithBreaks(element: HTMLElement): void {
       const nextChild = originalChildNodes[i + 1];
       if (
         nextChild instanceof HTMLElement &&
-        ["OL", "UL", "LI"].includes(nextChild.tagName)
+        (["OL", "UL", "LI"].includes(nextChild.tagName) ||
+          nextChild.hasAttribute("data-list-continuation"))
       ) {
-        // nextChild will be parsed as a separate flat-list-item by ProseMirror.
+        // nextChild will be parsed as a separate flat-list-item (or continuation) by ProseMirror.
         // Although adding a BR looks right in plain HTML, ProseMirror will interpret it as
         // an extra blank line in the current flat-list-item, which we don't want.
       } else {
@@ -145,6 +555,28 @@ export function replaceParagraphsWithBreaks(element: HTMLElement): void {
   return;
 }
 
+/**
+ * Returns the indent to give an LI's extra paragraphs in replaceParagraphsWithBreaks:
+ * the LI's indent if the editor's schema has continuations (FlatListContinuation), else null.
+ *
+ * Without an editor (e.g. Tiptap's getSchema), this is always null.
+ */
+export function computeContinuationIndent(
+  editor: Editor | undefined,
+  element: HTMLElement,
+): number | null {
+  if (!editor?.schema.nodes[continuationNodeName]) return null;
+  return computeIndent(element, getMaxIndent(editor));
+}
+
+/**
+ * Whether the given DOM node is collapsible whitespace (ignored by ProseMirror's parser).
+ */
+function isCollapsibleNode(node: ChildNode): boolean {
+  // eslint-disable-next-line no-control-regex
+  return node instanceof Text && /^[ \t\r\n\u000c]*$/.test(node.wholeText);
+}
+
 /**
  * Input rule to turn a block into a flat list item.
  *
@@ -152,10 +584,18 @@ export function replaceParagraphsWithBreaks(element: HTMLElement): void {
  * 1. We preserve the indent attr if the blocks starts as a list node.
  * 2. We don't match if the list node already has the intended type.
  * That way, you can type "1." at the start of an ordered list node without it disappearing.
+ * 3. Leading spaces or tabs in the match indent the list item by one level per two spaces
+ * (like FlatListTextSerializer's output; see getWhitespaceWidth for tabs), clamped to the previous
+ * list item's indent + 1 and maxIndent.
+ * 4. getAttributes can return null to not match after all.
  */
 export function flatListTypeInputRule(config: {
   find: InputRuleFinder;
   type: NodeType;
+  maxIndent?: number;
+  getAttributes?: (
+    match: ExtendedRegExpMatchArray,
+  ) => Record<string, any> | null;
 }) {
   return new InputRule({
     find: config.find,
@@ -181,15 +621,139 @@ export function flatListTypeInputRule(config: {
         indent = curNode.attrs["indent"] ?? 0;
       }
 
-      let checked: boolean | undefined = undefined;
-      if (config.type.name === taskNodeName) {
-        checked = match[match.length - 1]?.toLowerCase() === "x";
+      const attributes = config.getAttributes
+        ? config.getAttributes(match)
+        : {};
+      if (attributes === null) return null;
+
+      // Indent by one level per two spaces of leading whitespace.
+      const levels = Math.floor(
+        getWhitespaceWidth(/^[ \t]*/.exec(match[0])![0]) / 2,
+      );
+      if (levels > 0) {
+        const index = $start.index(-1);
+        const prevBlock = index > 0 ? $start.node(-1).child(index - 1) : null;
+        const prevIndent =
+          prevBlock &&
+          (isFlatListNode(prevBlock) || isFlatListContinuation(prevBlock))
+            ? (prevBlock.attrs.indent ?? 0)
+            : -1;
+        indent = Math.min(
+          indent + levels,
+          prevIndent + 1,
+          config.maxIndent ?? Infinity,
+        );
       }
 
       state.tr
         .delete(range.from, range.to)
-        .setBlockType(range.from, range.from, config.type, { indent, checked });
+        .setBlockType(range.from, range.from, config.type, {
+          indent,
+          ...attributes,
+        });
       return;
     },
   });
 }
+
+/**
+ * Returns the width of the given leading whitespace, counting tabs as 4 spaces
+ * (like Markdown's tab stops).
+ */
+export function getWhitespaceWidth(whitespace: string): number {
+  let width = 0;
+  for (const char of whitespace) width += char === "\t" ? 4 : 1;
+  return width;
+}
+
+/**
+ * Converts ULs whose LIs all start with a plain-text checkbox ("[ ]" or "[x]") into our own
+ * task list HTML (data-task-list and data-checked attrs), modifying element in-place.
+ *
+ * This is used to parse HTML rendered from Markdown by markdown-it without a task list plugin.
+ */
+export function markTextTaskLists(element: HTMLElement): void {
+  for (const ul of Array.from(element.querySelectorAll("ul"))) {
+    const lis = Array.from(ul.children).filter(
+      (child) => child.tagName === "LI",
+    );
+    const textNodes: Text[] = [];
+    const matches: RegExpExecArray[] = [];
+    for (const li of lis) {
+      // Loose lists wrap the LI's content in a P.
+      let first = li.firstChild;
+      if (first instanceof HTMLElement && first.tagName === "P") {
+        first = first.firstChild;
+      }
+      const match =
+        first instanceof Text ? /^\[([ xX])\](?:\s|$)/.exec(first.data) : null;
+      if (!match) break;
+      textNodes.push(first as Text);
+      matches.push(match);
+    }
+    if (lis.length === 0 || matches.length !== lis.length) continue;
+
+    ul.setAttribute("data-task-list", "");
+    lis.forEach((li, i) => {
+      li.setAttribute("data-checked", String(matches[i][1] !== " "));
+      textNodes[i].deleteData(0, matches[i][0].length);
+    });
+  }
+}
+
+/**
+ * Returns the index after the last "descendant" of parent.child(index):
+ * subsequent list items with greater indent, plus continuations of it and its descendants
+ * (subsequent continuations with at least its indent).
+ */
+export function getDescendantsEndIndex(parent: Node, index: number): number {
+  const indent = parent.child(index).attrs.indent ?? 0;
+  let end = index + 1;
+  for (; end < parent.childCount; end++) {
+    const subsequentItem = parent.child(end);
+    const subsequentIndent = subsequentItem.attrs.indent ?? 0;
+    if (isFlatListContinuation(subsequentItem)) {
+      if (subsequentIndent < indent) break;
+    } else {
+      if (!isFlatListNode(subsequentItem)) break;
+      if (subsequentIndent <= indent) break;
+    }
+  }
+  return end;
+}
+
+/**
+ * If parent.child(index) is hidden because one of its "ancestors" (previous list items with smaller indent,
+ * or for a continuation, also its own list item) is collapsed, returns the index of the outermost collapsed ancestor. Else returns null.
+ */
+export function getCollapsedAncestorIndex(
+  parent: Node,
+  index: number,
+): number | null {
+  const child = parent.child(index);
+  let minIndent: number;
+  if (isFlatListNode(child)) minIndent = child.attrs.indent ?? 0;
+  else if (isFlatListContinuation(child)) minIndent = child.attrs.indent + 1;
+  else return null;
+
+  let collapsedAncestor: number | null = null;
+  for (let i = index - 1; i >= 0 && minIndent > 0; i--) {
+    const prevItem = parent.child(i);
+    if (isFlatListContinuation(prevItem)) continue;
+    if (!isFlatListNode(prevItem)) break;
+    const prevIndent = prevItem.attrs.indent ?? 0;
+    if (prevIndent < minIndent) {
+      // prevItem is an ancestor.
+      if (prevItem.attrs.collapsed) collapsedAncestor = i;
+      minIndent = prevIndent;
+    }
+  }
+  return collapsedAncestor;
+}
+
+/**
+ * Returns a CSS string literal with the given value, e.g. for use as a custom list-style-type.
+ */
+export function cssString(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&")}"`;
+}
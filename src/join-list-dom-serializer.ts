@@ -7,8 +7,30 @@ import {
   Node,
   Schema,
 } from "@tiptap/pm/model";
-import { getContentElement, parseIntegerAttr } from "./internal/utils";
-import { ListType } from "./list-type";
+import {
+  deriveCounters,
+  getCounterDerivation,
+} from "./internal/numbering-plugin";
+import {
+  formatOrderedMarker,
+  isOrderedMarkerStyle,
+} from "./internal/ordered-marker";
+import { removeFlatListClasses } from "./internal/styling";
+import {
+  cssString,
+  getContentElement,
+  parseIntegerAttr,
+} from "./internal/utils";
+import { getFlatListTypeInfo, ListType } from "./list-type";
+
+/**
+ * How JoinListDOMSerializer derives the FlatListOrdered nodes' `counter` and `number` attrs
+ * for FlatListOrdered's "decorations" counters mode, which doesn't keep them up-to-date.
+ */
+export interface CounterDerivation {
+  /** For "hierarchical" numbering, formats the `number` attr; else null. */
+  formatNumber: ((path: number[]) => string) | null;
+}
 
 // Based on https://github.com/ocavue/prosemirror-flat-list/blob/master/packages/core/src/utils/list-serializer.ts
 
@@ -38,6 +60,11 @@ export class JoinListDOMSerializer extends DOMSerializer {
       [mark: string]: (mark: Mark, inline: boolean) => DOMOutputSpec;
     },
     readonly usedFor: "getHTML" | "clipboard",
+    /**
+    If set, derive the FlatListOrdered nodes' counters before serializing
+    (for FlatListOrdered's "decorations" counters mode).
+    */
+    readonly counterDerivation: CounterDerivation | null = null,
   ) {
     super(nodes, marks);
   }
@@ -53,7 +80,17 @@ export class JoinListDOMSerializer extends DOMSerializer {
   static from(
     domSerializer: DOMSerializer,
     usedFor: "getHTML" | "clipboard" = "getHTML",
+    counterDerivation: CounterDerivation | null = null,
   ): JoinListDOMSerializer {
+    if (counterDerivation !== null) {
+      return new JoinListDOMSerializer(
+        domSerializer.nodes,
+        domSerializer.marks,
+        usedFor,
+        counterDerivation,
+      );
+    }
+
     let cachedMap = this.cache.get(domSerializer);
     if (!cachedMap) {
       cachedMap = {};
@@ -77,8 +114,13 @@ export class JoinListDOMSerializer extends DOMSerializer {
   static fromSchema(
     schema: Schema,
     usedFor: "getHTML" | "clipboard" = "getHTML",
+    counterDerivation: CounterDerivation | null = null,
   ): JoinListDOMSerializer {
-    return this.from(DOMSerializer.fromSchema(schema), usedFor);
+    return this.from(
+      DOMSerializer.fromSchema(schema),
+      usedFor,
+      counterDerivation,
+    );
   }
 
   /**
@@ -91,24 +133,62 @@ export class JoinListDOMSerializer extends DOMSerializer {
           editor.view.props.clipboardSerializer ??
             DOMSerializer.fromSchema(editor.schema),
           "clipboard",
+          getCounterDerivation(editor),
         ),
       },
     });
   }
 
-  static getHTML(editor: Editor) {
-    return this.getDocHTML(editor.state.doc);
+  /**
+   * Returns the editor's content as HTML, like `editor.getHTML()` but with joined & nested lists.
+   *
+   * @param options.document The Document used to create the HTML elements. Default: the global `document`.
+   */
+  static getHTML(editor: Editor, options?: { document?: Document }) {
+    const counterDerivation = getCounterDerivation(editor);
+    return this.getDocHTML(editor.state.doc, {
+      ...options,
+      ...(counterDerivation && {
+        deriveCounters: true,
+        formatNumber: counterDerivation.formatNumber ?? undefined,
+      }),
+    });
   }
 
-  static getDocHTML(doc: Node) {
+  /**
+   * Returns the given ProseMirror doc as HTML, like `editor.getHTML()` but with joined & nested lists.
+   *
+   * @param options.document The Document used to create the HTML elements. Default: the global `document`.
+   * Pass a Document from a DOM library (e.g. happy-dom) to serialize HTML without a browser,
+   * e.g., on a server.
+   * @param options.deriveCounters Whether to derive the ordered list items' counters instead of using
+   * their `counter` attrs, for documents from an editor that uses FlatListOrdered's "decorations"
+   * counters mode. Default: false.
+   * @param options.formatNumber With deriveCounters, the FlatListOrdered formatNumber option
+   * for "hierarchical" numbering. Default: none ("flat" numbering).
+   */
+  static getDocHTML(
+    doc: Node,
+    options?: {
+      document?: Document;
+      deriveCounters?: boolean;
+      formatNumber?: (path: number[]) => string;
+    },
+  ) {
     // Modified from Tiptap's getHTMLFromFragment.
     const serializer = JoinListDOMSerializer.fromSchema(
       doc.type.schema,
       "getHTML",
+      options?.deriveCounters
+        ? { formatNumber: options.formatNumber ?? null }
+        : null,
     );
-    const documentFragment = serializer.serializeFragment(doc.content);
+    const temporaryDocument =
+      options?.document ?? document.implementation.createHTMLDocument();
+    const documentFragment = serializer.serializeFragment(doc.content, {
+      document: temporaryDocument,
+    });
 
-    const temporaryDocument = document.implementation.createHTMLDocument();
     const container = temporaryDocument.createElement("div");
 
     container.appendChild(documentFragment);
@@ -121,6 +201,11 @@ export class JoinListDOMSerializer extends DOMSerializer {
     options?: { document?: Document },
     target?: HTMLElement | DocumentFragment,
   ): HTMLElement | DocumentFragment {
+    if (this.counterDerivation !== null && target === undefined) {
+      // Top-level call (nested content is serialized with a target): derive counters for
+      // the whole fragment, including nested content.
+      fragment = deriveCounters(fragment, this.counterDerivation);
+    }
     const dom = super.serializeFragment(fragment, options, target);
     joinListElements(dom, this.usedFor);
     return dom;
@@ -132,7 +217,7 @@ export class JoinListDOMSerializer extends DOMSerializer {
  *
  * The extensions render each flat list item as a list (ol or ul) containing
  * a single li. This function joins adjacent lists and also nests them when indented,
- * in-place.
+ * in-place. Continuation paragraphs (FlatListContinuation) are moved into their list item's li.
  *
  * This function also cleans up the HTML a bit, especially when copying, to avoid confusing other programs.
  *
@@ -158,12 +243,14 @@ function joinListElements(
       const liChild = block.firstChild as HTMLLIElement;
       const indent =
         parseIntegerAttr(liChild.getAttribute("data-list-indent")) ?? 0;
+      const hasStart = liChild.hasAttribute("data-list-start");
 
       if (usedFor === "getHTML") {
-        // Remove this to clean up the saved HTML.
-        // We leave it in when copying so that pasting back into Tiptap remembers backwards
+        // Remove these to clean up the saved HTML.
+        // We leave them in when copying so that pasting back into Tiptap remembers backwards
         // indents that we can't represent in plain HTML (e.g.: 1, 0, 1).
         liChild.removeAttribute("data-list-indent");
+        liChild.removeAttribute("data-list-start");
       }
       if (usedFor === "clipboard") {
         // Simplify the LI content: make the LI its own content element, removing the task checkbox.
@@ -179,16 +266,47 @@ function joinListElements(
         liChild.removeAttribute("style");
       }
 
+      const number = liChild.getAttribute("data-list-number");
+      if (
+        number !== null &&
+        (usedFor === "clipboard" || block.hasAttribute("style"))
+      ) {
+        // Hierarchical numbering: the OL's list-style-type only shows its first item's number,
+        // so show each LI's composed number using its own list-style-type.
+        // (Skipped for "classes" styling, recognized by the OL's lack of inline styles,
+        // since flatListStylesheet shows the data-list-number attr instead.)
+        liChild.style.setProperty("list-style-type", cssString(`${number} `));
+      }
+
+      const markerStyle = liChild.getAttribute("data-marker-style");
+      if (
+        number === null &&
+        isOrderedMarkerStyle(markerStyle) &&
+        markerStyle[1] === ")" &&
+        (usedFor === "clipboard" || block.hasAttribute("style"))
+      ) {
+        // Likewise, list-style-type can't show a ")" delimiter, so show each LI's marker as a string.
+        const counter = parseIntegerAttr(block.getAttribute("start")) ?? 1;
+        liChild.style.setProperty(
+          "list-style-type",
+          cssString(`${formatOrderedMarker(counter, markerStyle)} `),
+        );
+      }
+
       const lastList = lastLists[indent];
       if (lastList === undefined || getElementListType(lastList) !== listType) {
         // child starts a new list.
 
-        // 1. Remove extraneous attrs/styles.
-        block.removeAttribute("start");
+        // 1. Remove extraneous attrs/styles/classes.
+        // The OL's start attr is the first item's counter; keep it only if it is not the default.
+        if (block.getAttribute("start") === "1") block.removeAttribute("start");
+        // The indent is represented by nesting instead.
         block.style.removeProperty("margin-left");
+        removeFlatListClasses(block, "indent");
         if (usedFor === "clipboard") {
           // Let the target program decide what OL/UL formatting to use.
           block.removeAttribute("style");
+          removeFlatListClasses(block, "all");
         }
 
         // 2. Nest under previous indent level's list.
@@ -216,6 +334,15 @@ function joinListElements(
         lastLists.length = indent + 1;
       } else {
         // Append child's li to the existing list.
+        if (hasStart) {
+          // The item restarts numbering; use the LI's value attr to represent that in plain HTML.
+          liChild.setAttribute("value", block.getAttribute("start")!);
+        }
+        if (block.getAttribute("type") !== lastList.getAttribute("type")) {
+          // The item has another marker style than its list (see FlatListOrdered's markerStyle attr);
+          // use the LI's type attr to represent that in plain HTML.
+          liChild.setAttribute("type", block.getAttribute("type") ?? "1");
+        }
         lastList.append(liChild);
         block.remove();
         i--;
@@ -223,6 +350,32 @@ function joinListElements(
         // Reset the lastLists for higher indent levels.
         lastLists.length = indent + 1;
       }
+    } else if (
+      block.hasAttribute("data-list-continuation") &&
+      lastLists.length > 0
+    ) {
+      // Continuation paragraph: move it into the last LI at its indent level.
+      const indent = Math.min(
+        parseIntegerAttr(block.getAttribute("data-list-indent")) ?? 0,
+        lastLists.length - 1,
+      );
+
+      // Remove extraneous attrs/styles/classes. (Pasting back into Tiptap recognizes the P by its position in the LI.)
+      block.removeAttribute("data-list-continuation");
+      block.removeAttribute("data-list-indent");
+      block.style.removeProperty("margin-left");
+      removeFlatListClasses(block, "all");
+      if (usedFor === "clipboard" || block.getAttribute("style") === "") {
+        block.removeAttribute("style");
+      }
+
+      const list = lastLists[indent];
+      const li = list.lastChild as HTMLElement;
+      getContentElement(getElementListType(list)!, li).append(block);
+      i--;
+
+      // Reset the lastLists for higher indent levels.
+      lastLists.length = indent + 1;
     } else {
       // Not a list block. Reset all lastLists.
       lastLists = [];
@@ -232,12 +385,18 @@ function joinListElements(
 
 /**
  * Given a candidate flat-list wrapper OL/UL, return its ListType, or null if it is not one.
+ *
+ * Custom list types (see createFlatListItem) are recognized by their wrapper's data-list-type attr.
  */
 function getElementListType(element: Element): ListType | null {
+  if (element.tagName !== "OL" && element.tagName !== "UL") return null;
+  const dataListType = element.getAttribute("data-list-type");
+  if (dataListType !== null && getFlatListTypeInfo(dataListType) !== null) {
+    return dataListType;
+  }
+
   if (element.tagName === "OL") return "ordered";
-  else if (element.tagName === "UL") {
-    const attrTaskList = element.getAttribute("data-task-list");
-    if (attrTaskList === "" || attrTaskList === "true") return "task";
-    else return "unordered";
-  } else return null;
+  const attrTaskList = element.getAttribute("data-task-list");
+  if (attrTaskList === "" || attrTaskList === "true") return "task";
+  else return "unordered";
 }
@@ -0,0 +1,171 @@
+import { Node } from "@tiptap/pm/model";
+import { EditorState } from "@tiptap/pm/state";
+import { getOrderedCounter } from "./internal/numbering-plugin";
+import { getDescendantsEndIndex } from "./internal/utils";
+import {
+  getListBehavior,
+  getListType,
+  isFlatListContinuation,
+  isFlatListNode,
+  ListType,
+} from "./list-type";
+
+/**
+ * A flat list item in the document.
+ */
+export interface FlatListItemInfo {
+  node: Node;
+  /** The position directly before the node. */
+  pos: number;
+  /** The node's index in its parent (the doc or a container node). */
+  index: number;
+}
+
+/**
+ * The structure around a flat list item, as computed by getFlatListContext.
+ *
+ * "Parent", "children", and "siblings" refer to the nested list that the flat list represents:
+ * an item's parent is the previous list item with smaller indent, and its descendants are
+ * the subsequent list items with greater indent.
+ */
+export interface FlatListContext {
+  item: FlatListItemInfo;
+  listType: ListType;
+  /** The number of ancestors (parent, grandparent, ...) of the item. Usually equals its indent. */
+  depth: number;
+  parent: FlatListItemInfo | null;
+  /** The item's direct children, in order. */
+  children: FlatListItemInfo[];
+  /** The previous item with the same parent and indent, if any. */
+  previousSibling: FlatListItemInfo | null;
+  /** The next item with the same parent and indent, if any. */
+  nextSibling: FlatListItemInfo | null;
+  /** The range of the contiguous list (consecutive flat list items and their continuations) that contains the item. */
+  list: { from: number; to: number };
+  /**
+   * For ordered list items (including custom ListTypes with "ordered" behavior), the item's number (its `counter` attr, or with FlatListOrdered's
+   * "decorations" counters mode, the number shown). Else null.
+   */
+  counter: number | null;
+}
+
+/**
+ * Returns the structure around the flat list item at pos, or null if there is none.
+ *
+ * @param pos A position inside the flat list item, or directly before it.
+ * @example getFlatListContext(editor.state, editor.state.selection.from)?.parent
+ */
+export function getFlatListContext(
+  state: EditorState,
+  pos: number,
+): FlatListContext | null {
+  const $pos = state.doc.resolve(pos);
+  let depth: number;
+  let index: number;
+  if (isFlatListNode($pos.parent) && $pos.depth > 0) {
+    depth = $pos.depth - 1;
+    index = $pos.index(depth);
+  } else {
+    const nodeAfter = $pos.nodeAfter;
+    if (!nodeAfter || !isFlatListNode(nodeAfter)) return null;
+    depth = $pos.depth;
+    index = $pos.index();
+  }
+
+  const parentNode = $pos.node(depth);
+  const getInfo = (i: number): FlatListItemInfo => ({
+    node: parentNode.child(i),
+    pos: $pos.posAtIndex(i, depth),
+    index: i,
+  });
+  const indentAt = (i: number): number =>
+    (parentNode.child(i).attrs.indent as number | undefined) ?? 0;
+  // Continuations are part of the list, but not items of their own.
+  const isListBlockAt = (i: number) =>
+    i >= 0 &&
+    i < parentNode.childCount &&
+    (isFlatListNode(parentNode.child(i)) ||
+      isFlatListContinuation(parentNode.child(i)));
+  const isListItemAt = (i: number) =>
+    isListBlockAt(i) && !isFlatListContinuation(parentNode.child(i));
+
+  const item = getInfo(index);
+  const indent = indentAt(index);
+
+  // Scan backwards for the list's start, the parent, and the previous sibling.
+  let listStart = index;
+  let parent: FlatListItemInfo | null = null;
+  let previousSibling: FlatListItemInfo | null = null;
+  let depthCount = 0;
+  // Smallest indent seen so far while scanning backwards.
+  let minIndent = indent;
+  for (let i = index - 1; isListBlockAt(i); i--) {
+    listStart = i;
+    if (!isListItemAt(i)) continue;
+    const otherIndent = indentAt(i);
+    if (otherIndent < minIndent) {
+      // i is an ancestor.
+      if (parent === null) parent = getInfo(i);
+      depthCount++;
+      minIndent = otherIndent;
+    } else if (
+      otherIndent === indent &&
+      parent === null &&
+      previousSibling === null
+    ) {
+      previousSibling = getInfo(i);
+    }
+  }
+
+  // Scan forwards for the children, the next sibling, and the list's end.
+  const descendantsEnd = getDescendantsEndIndex(parentNode, index);
+  const children: FlatListItemInfo[] = [];
+  let minChildIndent = Infinity;
+  for (let i = index + 1; i < descendantsEnd; i++) {
+    if (!isListItemAt(i)) continue;
+    // i's parent is the item iff there are no items with smaller indent in between.
+    if (indentAt(i) <= minChildIndent) {
+      children.push(getInfo(i));
+      minChildIndent = indentAt(i);
+    }
+  }
+  const nextSibling =
+    isListItemAt(descendantsEnd) && indentAt(descendantsEnd) === indent
+      ? getInfo(descendantsEnd)
+      : null;
+  let listEnd = descendantsEnd;
+  while (isListBlockAt(listEnd)) listEnd++;
+
+  return {
+    item,
+    listType: getListType(item.node)!,
+    depth: depthCount,
+    parent,
+    children,
+    previousSibling,
+    nextSibling,
+    list: {
+      from: $pos.posAtIndex(listStart, depth),
+      to: $pos.posAtIndex(listEnd, depth),
+    },
+    counter:
+      getListBehavior(item.node) === "ordered"
+        ? getOrderedCounter(state, item.pos, item.node)
+        : null,
+  };
+}
+
+/**
+ * Returns whether the start of the selection is in a flat list item (of the given ListType, if provided),
+ * e.g. for toolbar button state.
+ *
+ * @example isFlatListItemActive(editor.state, "task")
+ */
+export function isFlatListItemActive(
+  state: EditorState,
+  listType?: ListType,
+): boolean {
+  const context = getFlatListContext(state, state.selection.from);
+  if (context === null) return false;
+  return listType === undefined || context.listType === listType;
+}
@@ -1,42 +1,151 @@
 import { Node } from "@tiptap/pm/model";
 import {
+  continuationNodeName,
   orderedNodeName,
   taskNodeName,
   unorderedNodeName,
 } from "./internal/extension-names";
 
-export type ListType = "ordered" | "unordered" | "task";
+/**
+ * The ListTypes of our built-in list item extensions (FlatListOrdered, FlatListUnordered, FlatListTask).
+ */
+export type BuiltinListType = "ordered" | "unordered" | "task";
+
+/**
+ * A kind of flat list item: a BuiltinListType, or a custom list type registered with registerFlatListType
+ * (e.g. by createFlatListItem). The intersection keeps the built-in names in editor autocompletion.
+ */
+export type ListType = BuiltinListType | (string & Record<never, never>);
+
+/**
+ * A registered kind of flat list item (see registerFlatListType).
+ */
+export interface FlatListTypeInfo {
+  /**
+   * The kind's ListType, e.g. "toggle".
+   */
+  listType: ListType;
+  /**
+   * The node type name of its list items, e.g. "flatListItemToggle".
+   */
+  nodeName: string;
+  /**
+   * The BuiltinListType whose behavior its list items share:
+   * - "ordered": The list items are numbered. Our plugins maintain their `counter` attr (and `number`,
+   * for "hierarchical" numbering), and numbering commands like restartFlatListNumbering apply to them.
+   * Consecutive items continue each other's numbering only if they have the same ListType.
+   * - "unordered": Plain list items.
+   * - "task": Checkable list items with a `checked` attr (only used by FlatListTask).
+   */
+  behavior: BuiltinListType;
+  /**
+   * Returns the marker that FlatListTextSerializer writes before the list item's text, e.g. "? ".
+   *
+   * Default: the marker of the behavior's built-in ListType (e.g. "1. " or "- ").
+   */
+  textMarker?: (node: Node) => string;
+}
+
+const builtinListTypeInfos: FlatListTypeInfo[] = [
+  { listType: "ordered", nodeName: orderedNodeName, behavior: "ordered" },
+  { listType: "unordered", nodeName: unorderedNodeName, behavior: "unordered" },
+  { listType: "task", nodeName: taskNodeName, behavior: "task" },
+];
+
+// The registry, by ListType and by node type name.
+const infosByListType = new Map<string, FlatListTypeInfo>(
+  builtinListTypeInfos.map((info) => [info.listType, info]),
+);
+const infosByNodeName = new Map<string, FlatListTypeInfo>(
+  builtinListTypeInfos.map((info) => [info.nodeName, info]),
+);
+
+/**
+ * Registers a custom kind of flat list item, so that our commands, plugins and serializers
+ * treat nodes of type info.nodeName as flat list items of ListType info.listType.
+ *
+ * createFlatListItem calls this for you. Call it directly if you only work with JSON (e.g. flatListToTree
+ * on a server) or define the node type yourself.
+ *
+ * The registry is global. Registering a ListType again replaces its previous info,
+ * but the built-in ListTypes and node names cannot be replaced.
+ */
+export function registerFlatListType(info: FlatListTypeInfo): void {
+  const isBuiltin = (listTypeInfo: FlatListTypeInfo | undefined) =>
+    listTypeInfo !== undefined && builtinListTypeInfos.includes(listTypeInfo);
+  if (
+    isBuiltin(infosByListType.get(info.listType)) ||
+    isBuiltin(infosByNodeName.get(info.nodeName))
+  ) {
+    throw new Error(
+      `Cannot register flat list type "${info.listType}" (node "${info.nodeName}"): it is built-in`,
+    );
+  }
+
+  const previous = infosByListType.get(info.listType);
+  if (previous) infosByNodeName.delete(previous.nodeName);
+  infosByListType.set(info.listType, info);
+  infosByNodeName.set(info.nodeName, info);
+}
+
+/**
+ * Returns the registered info for a ListType, or null if it is not registered.
+ */
+export function getFlatListTypeInfo(
+  listType: ListType,
+): FlatListTypeInfo | null {
+  return infosByListType.get(listType) ?? null;
+}
+
+/**
+ * Returns the registered infos of all ListTypes, built-in ones first.
+ */
+export function getFlatListTypeInfos(): FlatListTypeInfo[] {
+  return Array.from(infosByListType.values());
+}
 
 export function isFlatListNode(node: Node): boolean {
   return getListType(node) !== null;
 }
 
+/**
+ * Whether the given node is a flat list continuation: an extra paragraph of the previous list item
+ * with the same indent (see FlatListContinuation).
+ */
+export function isFlatListContinuation(node: Node): boolean {
+  return node.type.name === continuationNodeName;
+}
+
 /**
  * If the given node is a flat list node, returns its ListType, else returns null.
  */
 export function getListType(node: Node): ListType | null {
-  switch (node.type.name) {
-    case orderedNodeName:
-      return "ordered";
-    case unorderedNodeName:
-      return "unordered";
-    case taskNodeName:
-      return "task";
-    default:
-      return null;
-  }
+  return getListTypeFromNodeName(node.type.name);
+}
+
+/**
+ * If the given node is a flat list node, returns the BuiltinListType whose behavior it shares
+ * (see FlatListTypeInfo.behavior), else returns null.
+ */
+export function getListBehavior(node: Node): BuiltinListType | null {
+  return infosByNodeName.get(node.type.name)?.behavior ?? null;
+}
+
+/**
+ * If the given node type name is a flat list node name, returns its ListType, else returns null.
+ *
+ * Use this in place of getListType when working with JSON (e.g. `getListTypeFromNodeName(json.type)`).
+ */
+export function getListTypeFromNodeName(nodeName: string): ListType | null {
+  return infosByNodeName.get(nodeName)?.listType ?? null;
 }
 
 /**
  * Returns the node.type.name corresponding to a ListType.
+ * Throws if the ListType is not registered.
  */
-export function getFlatListNodeName(listType: ListType) {
-  switch (listType) {
-    case "ordered":
-      return orderedNodeName;
-    case "unordered":
-      return unorderedNodeName;
-    case "task":
-      return taskNodeName;
-  }
+export function getFlatListNodeName(listType: ListType): string {
+  const info = infosByListType.get(listType);
+  if (!info) throw new Error(`Unknown flat list type "${listType}"`);
+  return info.nodeName;
 }
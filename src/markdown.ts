@@ -0,0 +1,609 @@
+import { Editor, Node as TiptapNode } from "@tiptap/core";
+import {
+  defaultMarkdownParser,
+  defaultMarkdownSerializer,
+  MarkdownParser,
+  MarkdownSerializer,
+  MarkdownSerializerState,
+  ParseSpec,
+} from "@tiptap/pm/markdown";
+import { Attrs, Node, Schema } from "@tiptap/pm/model";
+import { continuationNodeName, taskNodeName } from "./internal/extension-names";
+import {
+  deriveCounters,
+  getCounterDerivation,
+} from "./internal/numbering-plugin";
+import {
+  clampIndents,
+  markTextTaskLists,
+  parseIntegerAttr,
+} from "./internal/utils";
+import {
+  BuiltinListType,
+  getFlatListNodeName,
+  getFlatListTypeInfos,
+  getListBehavior,
+  isFlatListContinuation,
+  isFlatListNode,
+} from "./list-type";
+
+type MarkdownToken = ReturnType<MarkdownParser["tokenizer"]["parse"]>[number];
+type MarkdownTokenConstructor = new (
+  type: string,
+  tag: string,
+  nesting: MarkdownToken["nesting"],
+) => MarkdownToken;
+
+/**
+ * MarkdownSerializerState internals, used the same way as its own renderList.
+ */
+type MarkdownSerializerStateInternals = MarkdownSerializerState & {
+  closed: Node | null;
+  flushClose(size?: number): void;
+};
+
+/**
+ * Markdown node serializer for flat list items, in the format expected by prosemirror-markdown's
+ * MarkdownSerializer (and Tiptap Markdown extensions built on it).
+ *
+ * Each flat list item becomes one list item line (`1. `, `- `, `- [ ] ` or `- [x] `), nested under
+ * its "parent" (previous list item with smaller indent) according to its indent.
+ * Consecutive flat list items are written as a tight list.
+ *
+ * @example new MarkdownSerializer({ ...nodes, flatListItemOrdered: serializeFlatListItemMarkdown }, marks)
+ */
+export function serializeFlatListItemMarkdown(
+  state: MarkdownSerializerState,
+  node: Node,
+  parent: Node,
+  index: number,
+): void {
+  const internals = state as MarkdownSerializerStateInternals;
+  if (index > 0 && internals.closed === parent.child(index - 1)) {
+    // Previous block is a flat list item (closed by us). Keep the list tight.
+    if (isFlatListNode(internals.closed)) internals.flushClose(1);
+  }
+
+  const leading = " ".repeat(getMarkdownLeadingWidth(parent, index));
+  const marker = getMarkdownMarker(node);
+  state.wrapBlock(
+    " ".repeat(leading.length + marker.width),
+    leading + marker.text,
+    node,
+    () => state.renderInline(node),
+  );
+}
+
+/**
+ * Markdown node serializer for flat list continuations (see serializeFlatListItemMarkdown).
+ *
+ * Each continuation becomes a paragraph inside its list item, indented to the item's content.
+ * This makes the surrounding list a loose list.
+ *
+ * @example new MarkdownSerializer({ ...nodes, flatListContinuation: serializeFlatListContinuationMarkdown }, marks)
+ */
+export function serializeFlatListContinuationMarkdown(
+  state: MarkdownSerializerState,
+  node: Node,
+  parent: Node,
+  index: number,
+): void {
+  // Find the list item that the continuation belongs to.
+  const indent = node.attrs.indent ?? 0;
+  let itemIndex = index - 1;
+  for (; itemIndex >= 0; itemIndex--) {
+    const sibling = parent.child(itemIndex);
+    if (isFlatListNode(sibling) && (sibling.attrs.indent ?? 0) <= indent) break;
+    if (!isFlatListNode(sibling) && !isFlatListContinuation(sibling)) {
+      itemIndex = -1;
+      break;
+    }
+  }
+
+  if (itemIndex < 0) {
+    // Not in a list. Write a plain paragraph.
+    state.renderInline(node);
+    state.closeBlock(node);
+    return;
+  }
+
+  const item = parent.child(itemIndex);
+  const width =
+    getMarkdownLeadingWidth(parent, itemIndex) + getMarkdownMarker(item).width;
+  state.wrapBlock(" ".repeat(width), null, node, () =>
+    state.renderInline(node),
+  );
+}
+
+/**
+ * Returns the list marker for a flat list item, plus the width that its content (and nested items)
+ * should be indented by.
+ */
+function getMarkdownMarker(node: Node): { text: string; width: number } {
+  // Markdown has no custom list types, so those use their behavior's marker.
+  switch (getListBehavior(node)) {
+    case "ordered": {
+      const text = `${node.attrs.counter ?? 1}. `;
+      return { text, width: text.length };
+    }
+    case "task":
+      // In GFM, the checkbox is part of the item's content.
+      return { text: node.attrs.checked ? "- [x] " : "- [ ] ", width: 2 };
+    default:
+      return { text: "- ", width: 2 };
+  }
+}
+
+/**
+ * Returns the number of spaces to put before the marker of parent.child(index):
+ * the sum of its ancestor list items' marker widths.
+ */
+function getMarkdownLeadingWidth(parent: Node, index: number): number {
+  let level = (parent.child(index).attrs.indent ?? 0) - 1;
+  let width = 0;
+  for (let i = index - 1; i >= 0 && level >= 0; i--) {
+    const sibling = parent.child(i);
+    // Continuations don't affect nesting.
+    if (isFlatListContinuation(sibling)) continue;
+    if (!isFlatListNode(sibling)) break;
+    const siblingIndent = sibling.attrs.indent ?? 0;
+    if (siblingIndent <= level) {
+      // sibling is the closest ancestor. If there is an indent gap, skip the missing levels.
+      width += getMarkdownMarker(sibling).width;
+      level = siblingIndent - 1;
+    }
+  }
+  return width;
+}
+
+/**
+ * MarkdownSerializer that handles flat list items, plus Tiptap's standard nodes and marks
+ * (paragraph, heading, blockquote, codeBlock, horizontalRule, hardBreak, image, bold, italic, code, link).
+ *
+ * Nodes and marks without a serializer have their content rendered as-is.
+ *
+ * Uses:
+ * - Call `FlatListMarkdownSerializer.getMarkdown(editor)` to get the editor's content as Markdown.
+ * - Pass `serializeFlatListItemMarkdown` to your own MarkdownSerializer instead if you need more node types.
+ */
+export class FlatListMarkdownSerializer extends MarkdownSerializer {
+  private static instance: FlatListMarkdownSerializer | undefined;
+
+  /**
+   * Returns a shared default serializer.
+   */
+  static get default(): FlatListMarkdownSerializer {
+    if (!this.instance) {
+      const { nodes, marks } = defaultMarkdownSerializer;
+      this.instance = new FlatListMarkdownSerializer(
+        {
+          paragraph: nodes.paragraph,
+          heading: nodes.heading,
+          blockquote: nodes.blockquote,
+          codeBlock: (state, node) => {
+            state.write("```" + (node.attrs.language ?? "") + "\n");
+            state.text(node.textContent, false);
+            state.ensureNewLine();
+            state.write("```");
+            state.closeBlock(node);
+          },
+          horizontalRule: nodes.horizontal_rule,
+          hardBreak: nodes.hard_break,
+          image: nodes.image,
+          text: nodes.text,
+        },
+        {
+          bold: marks.strong,
+          italic: marks.em,
+          code: marks.code,
+          link: marks.link,
+        },
+        { hardBreakNodeName: "hardBreak", strict: false },
+      );
+    }
+    // Include the ListTypes registered so far, including custom ones registered after the first call.
+    for (const { nodeName } of getFlatListTypeInfos()) {
+      this.instance.nodes[nodeName] ??= serializeFlatListItemMarkdown;
+    }
+    this.instance.nodes[continuationNodeName] ??=
+      serializeFlatListContinuationMarkdown;
+    return this.instance;
+  }
+
+  static getMarkdown(editor: Editor) {
+    // For FlatListOrdered's "decorations" counters mode, derive the counters that aren't stored in the doc.
+    const counterDerivation = getCounterDerivation(editor);
+    const doc = editor.state.doc;
+    return this.getDocMarkdown(
+      counterDerivation
+        ? doc.copy(deriveCounters(doc.content, counterDerivation))
+        : doc,
+    );
+  }
+
+  static getDocMarkdown(doc: Node) {
+    return this.default.serialize(doc);
+  }
+}
+
+/**
+ * Returns the given flat list extension (FlatListOrdered, FlatListUnordered, FlatListTask,
+ * FlatListContinuation, or one from createFlatListItem) with `markdown` storage hooks for
+ * Tiptap Markdown extensions (e.g. tiptap-markdown), which serialize it using
+ * serializeFlatListItemMarkdown or serializeFlatListContinuationMarkdown.
+ *
+ * The extensions don't include these hooks themselves, so that apps that don't use Markdown
+ * don't bundle a Markdown library. So this wrapper is required for such extensions to
+ * serialize flat lists; FlatListMarkdownSerializer.getMarkdown works without it.
+ *
+ * @example withMarkdownStorage(FlatListOrdered.configure({ numbering: "hierarchical" }))
+ */
+export function withMarkdownStorage<Options, Storage>(
+  extension: TiptapNode<Options, Storage>,
+) {
+  const isContinuation = extension.name === continuationNodeName;
+  const isTask = extension.name === taskNodeName;
+  return extension.extend({
+    addStorage() {
+      return {
+        ...this.parent?.(),
+        // Hooks for Tiptap Markdown extensions (e.g. tiptap-markdown).
+        markdown: {
+          serialize: isContinuation
+            ? serializeFlatListContinuationMarkdown
+            : serializeFlatListItemMarkdown,
+          ...(isTask ? { parse: { updateDOM: markTextTaskLists } } : {}),
+        },
+      };
+    },
+  });
+}
+
+/**
+ * MarkdownParser that turns (possibly nested) Markdown lists into flat list items.
+ *
+ * List items' indents are their nesting depth, normalized using the same rules as pasting
+ * (indent \<= previous indent + 1). Items starting with `[ ]` or `[x]` become task items.
+ * Later paragraphs in a list item become continuations (FlatListContinuation) if the schema has them,
+ * else they are joined to the item by hard breaks.
+ *
+ * Other Markdown constructs are mapped to Tiptap's standard node and mark names,
+ * if they are present in the schema. Otherwise, headings and code blocks become paragraphs,
+ * blockquotes and marks keep only their content, and horizontal rules and images are dropped.
+ *
+ * Uses:
+ * - Call `FlatListMarkdownParser.setContent(editor, markdown)` in place of `editor.commands.setContent(html)`.
+ * - Call `FlatListMarkdownParser.fromSchema(schema).parse(markdown)` to get a ProseMirror doc.
+ */
+export class FlatListMarkdownParser extends MarkdownParser {
+  private static readonly cache = new WeakMap<Schema, FlatListMarkdownParser>();
+
+  /**
+   * Returns a (cached) parser for the given schema.
+   */
+  static fromSchema(schema: Schema): FlatListMarkdownParser {
+    let parser = this.cache.get(schema);
+    if (!parser) {
+      const baseTokenizer = defaultMarkdownParser.tokenizer;
+      const tokenizer = Object.create(
+        baseTokenizer,
+      ) as MarkdownParser["tokenizer"];
+      tokenizer.parse = (src, env) =>
+        flattenListTokens(baseTokenizer.parse(src, env), schema);
+
+      parser = new FlatListMarkdownParser(
+        schema,
+        tokenizer,
+        getMarkdownParseSpecs(schema),
+      );
+      this.cache.set(schema, parser);
+    }
+    return parser;
+  }
+
+  static setContent(editor: Editor, markdown: string) {
+    const doc = this.fromSchema(editor.schema).parse(markdown);
+    return editor.commands.setContent(doc.toJSON());
+  }
+}
+
+/**
+ * Returns MarkdownParser token specs for the node and mark types in the given schema.
+ *
+ * Tokens whose node or mark type is missing get fallback specs, so that parsing doesn't throw:
+ * headings and code blocks become paragraphs, blockquotes and marks are dropped but keep
+ * their content, and horizontal rules, images and hard breaks are dropped.
+ */
+function getMarkdownParseSpecs(schema: Schema): Record<string, ParseSpec> {
+  const specs: Record<string, ParseSpec> = {};
+  const { nodes, marks } = schema;
+
+  specs.paragraph = { block: "paragraph" };
+  specs.heading = nodes.heading
+    ? {
+        block: "heading",
+        getAttrs: (tok) => ({ level: +tok.tag.slice(1) }),
+      }
+    : { block: "paragraph" };
+  specs.blockquote = nodes.blockquote
+    ? { block: "blockquote" }
+    : { ignore: true };
+  if (nodes.codeBlock) {
+    specs.code_block = { block: "codeBlock", noCloseToken: true };
+    specs.fence = {
+      block: "codeBlock",
+      getAttrs: (tok) => ({ language: tok.info || null }),
+      noCloseToken: true,
+    };
+  } else {
+    specs.code_block = { block: "paragraph", noCloseToken: true };
+    specs.fence = { block: "paragraph", noCloseToken: true };
+  }
+  specs.hr = nodes.horizontalRule
+    ? { node: "horizontalRule" }
+    : { ignore: true, noCloseToken: true };
+  specs.hardbreak = nodes.hardBreak
+    ? { node: "hardBreak" }
+    : { ignore: true, noCloseToken: true };
+  specs.image = nodes.image
+    ? {
+        node: "image",
+        getAttrs: (tok) => ({
+          src: tok.attrGet("src"),
+          title: tok.attrGet("title") || null,
+          alt: tok.children?.[0]?.content || null,
+        }),
+      }
+    : { ignore: true, noCloseToken: true };
+  specs.strong = marks.bold ? { mark: "bold" } : { ignore: true };
+  specs.em = marks.italic ? { mark: "italic" } : { ignore: true };
+  // Without the code mark, flattenListTokens turns inline code into plain text.
+  if (marks.code) specs.code_inline = { mark: "code", noCloseToken: true };
+  specs.link = marks.link
+    ? {
+        mark: "link",
+        getAttrs: (tok) => ({
+          href: tok.attrGet("href"),
+          title: tok.attrGet("title") || null,
+        }),
+      }
+    : { ignore: true };
+
+  if (nodes[continuationNodeName]) {
+    specs[continuationNodeName] = {
+      block: continuationNodeName,
+      getAttrs: (tok) => tok.meta as Attrs,
+    };
+  }
+
+  for (const listType of ["ordered", "unordered", "task"] as const) {
+    const nodeName = getFlatListNodeName(listType);
+    if (nodes[nodeName]) {
+      specs[nodeName] = {
+        block: nodeName,
+        getAttrs: (tok) => tok.meta as Attrs,
+      };
+    }
+  }
+
+  return specs;
+}
+
+/**
+ * Rewrites markdown-it's nested list tokens into a flat sequence of list item blocks,
+ * whose token types are flat list node names.
+ */
+function flattenListTokens(
+  tokens: MarkdownToken[],
+  schema: Schema,
+): MarkdownToken[] {
+  const out: MarkdownToken[] = [];
+  // Open lists' types, outermost first.
+  const lists: BuiltinListType[] = [];
+  // Open list items, outermost first.
+  const items: {
+    listType: BuiltinListType;
+    indent: number;
+    // For the first item of an ordered list, its number if not 1.
+    start: number | null;
+    // Once output, the item's inline token.
+    inline: MarkdownToken | null;
+    // Whether the item has had content after its first paragraph (e.g. a nested list).
+    hasMoreContent: boolean;
+  }[] = [];
+  // Output items' and continuations' attrs and top-level non-list blocks (null), for indent normalization.
+  const topLevelBlocks: ({ indent: number } | null)[] = [];
+  // Whether each of topLevelBlocks is a continuation.
+  const continuations: boolean[] = [];
+  // What we are doing with the current paragraph inside a list item, if any.
+  let paragraphMode: "item" | "continuation" | "join" | null = null;
+  // The start number of a just-opened ordered list, for its first item.
+  let pendingStart: number | null = null;
+
+  const outputItem = (
+    openToken: MarkdownToken,
+    inline: MarkdownToken | null,
+  ) => {
+    const item = items[items.length - 1];
+    let listType = item.listType;
+    let checked: boolean | undefined = undefined;
+    if (listType === "unordered" && inline) {
+      const match = /^\[([ xX])\](?:\s|$)/.exec(inline.content);
+      if (match && schema.nodes[getFlatListNodeName("task")]) {
+        listType = "task";
+        checked = match[1] !== " ";
+        stripInlinePrefix(inline, match[0].length);
+      }
+    }
+
+    let nodeName = getFlatListNodeName(listType);
+    if (!schema.nodes[nodeName]) nodeName = getFlatListNodeName("unordered");
+    if (!schema.nodes[nodeName]) nodeName = "paragraph";
+
+    openToken.type = `${nodeName}_open`;
+    const attrs = {
+      indent: item.indent,
+      checked,
+      start: listType === "ordered" ? item.start : undefined,
+    };
+    openToken.meta = nodeName === "paragraph" ? null : attrs;
+    out.push(openToken);
+    if (inline) out.push(inline);
+    else {
+      // Empty list item.
+      const closeToken =
+        new (openToken.constructor as MarkdownTokenConstructor)(
+          `${nodeName}_close`,
+          "",
+          -1,
+        );
+      out.push(closeToken);
+    }
+    if (nodeName !== "paragraph") {
+      topLevelBlocks.push(attrs);
+      continuations.push(false);
+    }
+
+    item.inline = inline ?? openToken;
+  };
+
+  const outputEmptyItemIfNeeded = (token: MarkdownToken) => {
+    const item = items[items.length - 1];
+    if (item && item.inline === null) {
+      outputItem(
+        new (token.constructor as MarkdownTokenConstructor)("", "", 1),
+        null,
+      );
+    }
+  };
+
+  if (!schema.marks.code) {
+    // Keep inline code's text as plain text (see getMarkdownParseSpecs).
+    for (const token of tokens) {
+      for (const child of token.children ?? []) {
+        if (child.type === "code_inline") child.type = "text";
+      }
+    }
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    switch (token.type) {
+      case "bullet_list_open":
+      case "ordered_list_open":
+        outputEmptyItemIfNeeded(token);
+        if (items.length > 0) items[items.length - 1].hasMoreContent = true;
+        lists.push(
+          token.type === "ordered_list_open" ? "ordered" : "unordered",
+        );
+        // markdown-it only sets the start attr if it is not 1.
+        pendingStart = parseIntegerAttr(token.attrGet("start")) ?? null;
+        continue;
+      case "bullet_list_close":
+      case "ordered_list_close":
+        lists.pop();
+        continue;
+      case "list_item_open":
+        items.push({
+          listType: lists[lists.length - 1],
+          indent: lists.length - 1,
+          start: pendingStart,
+          inline: null,
+          hasMoreContent: false,
+        });
+        pendingStart = null;
+        continue;
+      case "list_item_close":
+        outputEmptyItemIfNeeded(token);
+        items.pop();
+        continue;
+    }
+
+    const item = items[items.length - 1];
+    if (item && token.type === "paragraph_open") {
+      if (item.inline === null) {
+        // First paragraph: becomes the list item.
+        paragraphMode = "item";
+        const inline = tokens[i + 1];
+        outputItem(token, inline);
+        i++;
+        continue;
+      } else if (schema.nodes[continuationNodeName]) {
+        // Later paragraph: becomes a continuation of the list item.
+        paragraphMode = "continuation";
+        token.type = `${continuationNodeName}_open`;
+        const attrs = { indent: item.indent };
+        token.meta = attrs;
+        out.push(token, tokens[i + 1]);
+        topLevelBlocks.push(attrs);
+        continuations.push(true);
+        i++;
+        continue;
+      } else if (!item.hasMoreContent) {
+        // Without continuations, a later paragraph is joined to the list item with a hard break,
+        // like replaceParagraphsWithBreaks.
+        paragraphMode = "join";
+        const inline = tokens[i + 1];
+        const Token = inline.constructor as MarkdownTokenConstructor;
+        item.inline.children = [
+          ...(item.inline.children ?? []),
+          new Token(
+            schema.nodes.hardBreak ? "hardbreak" : "softbreak",
+            "br",
+            0,
+          ),
+          ...(inline.children ?? []),
+        ];
+        i++;
+        continue;
+      }
+    }
+    if (token.type === "paragraph_close" && paragraphMode !== null) {
+      if (paragraphMode === "item" || paragraphMode === "continuation") {
+        token.type = out[out.length - 2].type.replace(/_open$/, "_close");
+        out.push(token);
+      }
+      paragraphMode = null;
+      continue;
+    }
+
+    if (item) {
+      // Other content inside a list item. Flat list items only have inline content,
+      // so output it as a separate block after the item.
+      outputEmptyItemIfNeeded(token);
+      item.hasMoreContent = true;
+    } else if (token.level === 0 && token.nesting !== -1) {
+      topLevelBlocks.push(null);
+      continuations.push(false);
+    }
+    out.push(token);
+  }
+
+  // Normalize indents like flatListPastePlugin.
+  const newIndents = clampIndents(
+    topLevelBlocks.map((attrs) => (attrs ? attrs.indent : null)),
+    0,
+    -1,
+    Infinity,
+    continuations,
+  );
+  topLevelBlocks.forEach((attrs, j) => {
+    if (attrs) attrs.indent = newIndents[j]!;
+  });
+
+  return out;
+}
+
+/**
+ * Removes the first length characters from an inline token's text.
+ */
+function stripInlinePrefix(inline: MarkdownToken, length: number) {
+  inline.content = inline.content.slice(length);
+  const children = inline.children ?? [];
+  while (length > 0 && children.length > 0 && children[0].type === "text") {
+    const removed = Math.min(length, children[0].content.length);
+    children[0].content = children[0].content.slice(removed);
+    length -= removed;
+    if (children[0].content === "") children.shift();
+  }
+}
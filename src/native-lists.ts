@@ -0,0 +1,182 @@
+import { JSONContent } from "@tiptap/core";
+import {
+  FlatListTreeBlock,
+  FlatListTreeList,
+  FlatListTreeNode,
+  flatListToTree,
+  isFlatListTreeList,
+} from "./flat-list-tree";
+import { continuationNodeName } from "./internal/extension-names";
+import {
+  BuiltinListType,
+  getFlatListNodeName,
+  getFlatListTypeInfo,
+} from "./list-type";
+
+/**
+ * Node type names of Tiptap's built-in list extensions (BulletList, OrderedList, ListItem,
+ * TaskList, TaskItem).
+ */
+const nativeListNames: Record<BuiltinListType, { list: string; item: string }> =
+  {
+    ordered: { list: "orderedList", item: "listItem" },
+    unordered: { list: "bulletList", item: "listItem" },
+    task: { list: "taskList", item: "taskItem" },
+  };
+
+/**
+ * Converts ProseMirror JSON that uses Tiptap's built-in list extensions
+ * (`bulletList`/`orderedList`/`taskList` containing `listItem`/`taskItem`, each containing a paragraph
+ * plus nested lists) into ProseMirror JSON with flat list items, e.g. to migrate saved documents.
+ *
+ * - Each native list item becomes a flat list item whose `indent` is its list's nesting depth.
+ * Task items keep their `checked` attr, and an ordered list's `start` (if not 1)
+ * becomes its first item's `start`.
+ * - Like `replaceParagraphsWithBreaks` when parsing HTML, a list item's first paragraph becomes
+ * the flat list item's content. Its later paragraphs become continuations (`flatListContinuation`)
+ * with the item's indent if options.continuations is set, else they are joined to the item's content,
+ * separated by hard breaks. Its other blocks (e.g. code blocks) and nested lists follow the item
+ * in their original order.
+ *
+ * The input is not modified. Lists nested inside other nodes (e.g. blockquotes) are also converted.
+ *
+ * @param options.continuations Whether the target schema has continuations (FlatListContinuation).
+ * Default: false.
+ */
+export function nativeListsToFlatList(
+  json: JSONContent,
+  options?: { continuations?: boolean },
+): JSONContent {
+  const { content, ...rest } = json;
+  if (content === undefined) return rest;
+
+  const flatContent: JSONContent[] = [];
+  for (const node of content) {
+    const listType = getNativeListType(node);
+    if (listType === null) {
+      flatContent.push(nativeListsToFlatList(node, options));
+    } else {
+      flattenNativeList(node, listType, 0, flatContent, options);
+    }
+  }
+  return { ...rest, content: flatContent };
+}
+
+/**
+ * Inverse of nativeListsToFlatList: converts ProseMirror JSON with flat list items into JSON that uses
+ * Tiptap's built-in list extensions, e.g. to export documents for consumers of the native schema.
+ *
+ * Flat list items are grouped into nested lists using flatListToTree.
+ * Each becomes a native list item containing a paragraph with its content, followed by its nested lists
+ * and its continuations' paragraphs.
+ * Task items keep their `checked` attr, and an ordered list's `start` is its first item's counter.
+ * Custom ListTypes (see createFlatListItem) become the native lists of their behavior.
+ * Attrs without a native equivalent (e.g. `collapsed`, or a `start` that restarts numbering
+ * in the middle of a list) are dropped.
+ *
+ * The input is not modified.
+ */
+export function flatListToNativeLists(json: JSONContent): JSONContent {
+  return treeBlockToNative(flatListToTree(json));
+}
+
+function getNativeListType(node: JSONContent): BuiltinListType | null {
+  for (const [listType, names] of Object.entries(nativeListNames)) {
+    if (node.type === names.list) return listType as BuiltinListType;
+  }
+  return null;
+}
+
+function flattenNativeList(
+  list: JSONContent,
+  listType: BuiltinListType,
+  indent: number,
+  output: JSONContent[],
+  options: { continuations?: boolean } | undefined,
+): void {
+  const start = Number(list.attrs?.start ?? 1);
+  let isFirst = true;
+  for (const item of list.content ?? []) {
+    const attrs: Record<string, unknown> = { indent };
+    if (listType === "task") attrs.checked = !!item.attrs?.checked;
+    if (listType === "ordered" && isFirst && start !== 1) attrs.start = start;
+    const flatItem: JSONContent = {
+      type: getFlatListNodeName(listType),
+      attrs,
+    };
+    output.push(flatItem);
+
+    const inlineContent: JSONContent[] = [];
+    let paragraphCount = 0;
+    (item.content ?? []).forEach((block, i) => {
+      const nestedListType = getNativeListType(block);
+      if (nestedListType !== null) {
+        flattenNativeList(block, nestedListType, indent + 1, output, options);
+      } else if (block.type !== "paragraph") {
+        output.push(nativeListsToFlatList(block, options));
+      } else if (i === 0 || !options?.continuations) {
+        // Join paragraphs with hard breaks.
+        if (paragraphCount > 0) inlineContent.push({ type: "hardBreak" });
+        inlineContent.push(...(block.content ?? []));
+        paragraphCount++;
+      } else {
+        output.push({
+          type: continuationNodeName,
+          attrs: { indent },
+          ...(block.content !== undefined ? { content: block.content } : {}),
+        });
+      }
+    });
+
+    if (inlineContent.length > 0) flatItem.content = inlineContent;
+    isFirst = false;
+  }
+}
+
+function treeBlockToNative(block: FlatListTreeBlock): JSONContent {
+  if (isFlatListTreeList(block)) return treeListToNative(block);
+
+  const { content, ...rest } = block;
+  if (content === undefined) return rest;
+  return { ...rest, content: content.map(treeBlockToNative) };
+}
+
+function treeListToNative(list: FlatListTreeList): JSONContent {
+  // Custom ListTypes become the native list of their behavior.
+  const behavior = getFlatListTypeInfo(list.listType)?.behavior ?? "unordered";
+  const names = nativeListNames[behavior];
+  const items = list.items.map((item): JSONContent => {
+    const paragraph: JSONContent = { type: "paragraph" };
+    if (item.node.content !== undefined) paragraph.content = item.node.content;
+    return {
+      type: names.item,
+      ...(behavior === "task"
+        ? { attrs: { checked: !!item.node.attrs?.checked } }
+        : {}),
+      content: [
+        paragraph,
+        ...item.children.map((child) =>
+          isFlatListTreeList(child)
+            ? treeListToNative(child)
+            : continuationToNative(child),
+        ),
+      ],
+    };
+  });
+
+  const nativeList: JSONContent = { type: names.list, content: items };
+  if (behavior === "ordered") {
+    const firstAttrs = list.items[0].node.attrs;
+    const start = Number(firstAttrs?.start ?? firstAttrs?.counter ?? 1);
+    if (start !== 1) nativeList.attrs = { start };
+  }
+  return nativeList;
+}
+
+function continuationToNative(continuation: FlatListTreeNode): JSONContent {
+  const paragraph: JSONContent = { type: "paragraph" };
+  if (continuation.content !== undefined) {
+    paragraph.content = continuation.content;
+  }
+  return paragraph;
+}
@@ -0,0 +1,84 @@
+import { getMarkerListStyleType } from "./internal/ordered-marker";
+import { indentLength } from "./internal/styling";
+
+/**
+ * How the flat list extensions style their rendered HTML:
+ * - "inline": Inline styles for margins, list-style-type, and task checkbox positioning.
+ * Indents are multiples of the CSS custom property `--flat-list-indent` (default 20px),
+ * so you can change the indent unit with CSS.
+ * - "classes": Only classes and data attributes, no inline styles.
+ * Each list item's wrapper element (ol/ul) gets the classes `flat-list`, `flat-list-<listType>`
+ * (e.g. `flat-list-ordered`), and `flat-list-indent-<indent>`; continuations get `flat-list-continuation`
+ * and `flat-list-indent-<indent>`. FlatListCore's collapse toggles, drag handles and drop indicators
+ * get `flat-list-toggle`, `flat-list-drag-handle` and `flat-list-drop-indicator`.
+ * Style these with `flatListStylesheet` or your own CSS.
+ */
+export type FlatListStyling = "inline" | "classes";
+
+/**
+ * Rendering options shared by the flat list item and continuation extensions.
+ */
+export interface FlatListRenderOptions {
+  /**
+   * HTML attributes to add to each list item's wrapper element (ol/ul),
+   * or to each continuation's p.
+   *
+   * Default: {}.
+   */
+  HTMLAttributes: Record<string, any>;
+  /**
+   * How to style the rendered HTML; see FlatListStyling.
+   *
+   * Default: "inline".
+   */
+  styling: FlatListStyling;
+}
+
+/**
+ * The number of indent levels styled by flatListStylesheet.
+ * Add your own `.flat-list-indent-<indent>` rules for deeper indents.
+ */
+const stylesheetIndentLevels = 10;
+
+/**
+ * Default stylesheet for the "classes" styling mode, matching the "inline" mode's inline styles.
+ *
+ * Add it to your page, e.g. in a `<style>` element. Unlike the "inline" mode, it ignores
+ * FlatListOrdered and FlatListUnordered's getListStyleType option; override the
+ * `list-style-type` of `.flat-list-ordered.flat-list-indent-<indent>` etc. instead.
+ * Typed marker styles (e.g. "a. ") are shown using the LIs' `data-marker-style` attr.
+ */
+export const flatListStylesheet = [
+  ".flat-list { margin-bottom: 0; }",
+  ".flat-list-ordered { list-style-type: decimal; }",
+  ".flat-list-unordered { list-style-type: disc; }",
+  ".flat-list-task { list-style-type: none; }",
+  ".flat-list-task > li { position: relative; }",
+  ".flat-list-task > li > label { position: absolute; left: -20px; top: 0; user-select: none; }",
+  ".flat-list-task > li > label > input:enabled { cursor: pointer; }",
+  // FlatListCore's widgets, positioned in the marker area.
+  ".flat-list-toggle { position: absolute; margin-left: -40px; cursor: pointer; user-select: none; }",
+  ".flat-list-drag-handle { position: absolute; margin-left: -60px; cursor: grab; user-select: none; }",
+  ".flat-list-drop-indicator { height: 2px; background-color: currentColor; opacity: 0.5; pointer-events: none; }",
+  // Typed marker styles (FlatListOrdered's markerStyle attr).
+  ...(["a", "A", "i", "I"] as const).map(
+    (numerals) =>
+      `.flat-list-ordered > li[data-marker-style^="${numerals}"] { list-style-type: ${getMarkerListStyleType(`${numerals}.`)}; }`,
+  ),
+  ...(["1", "a", "A", "i", "I"] as const).map(
+    (numerals) =>
+      `.flat-list-ordered > li[data-marker-style="${numerals})"]::marker { content: counter(list-item, ${getMarkerListStyleType(`${numerals})`)}) ") "; }`,
+  ),
+  // Hierarchical numbering.
+  '.flat-list > li[data-list-number]::marker { content: attr(data-list-number) " "; }',
+  // Hierarchical numbering with FlatListOrdered's "decorations" counters mode.
+  ".flat-list[data-list-number] > li::marker { content: var(--flat-list-number); }",
+  `.flat-list-continuation { margin-bottom: 0; margin-left: ${indentLength(0, 40)}; }`,
+  ...Array.from({ length: stylesheetIndentLevels }, (_, i) => {
+    const indent = i + 1;
+    return (
+      `.flat-list-indent-${indent} { margin-left: ${indentLength(indent)}; }\n` +
+      `.flat-list-continuation.flat-list-indent-${indent} { margin-left: ${indentLength(indent, 40)}; }`
+    );
+  }),
+].join("\n");
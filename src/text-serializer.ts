@@ -0,0 +1,205 @@
+import {
+  Editor,
+  getTextBetween,
+  getTextSerializersFromSchema,
+  TextSerializer,
+} from "@tiptap/core";
+import { Fragment, Node, Schema, Slice } from "@tiptap/pm/model";
+import {
+  deriveCounters,
+  getCounterDerivation,
+} from "./internal/numbering-plugin";
+import { formatOrderedMarker } from "./internal/ordered-marker";
+import {
+  getFlatListTypeInfo,
+  getListBehavior,
+  getListType,
+  isFlatListContinuation,
+  isFlatListNode,
+} from "./list-type";
+
+/**
+ * Serializer that converts content to plain text, preserving the structure of flat lists.
+ *
+ * Each flat list item becomes one line, indented by two spaces per indent level and prefixed by
+ * its marker: `- ` for unordered items, its `counter` for ordered items (e.g. `2. `),
+ * and `[ ] `/`[x] ` for task items. Custom ListTypes use their FlatListTypeInfo.textMarker, if any,
+ * else their behavior's marker. Other blocks are separated by blank lines, like `editor.getText()`.
+ *
+ * Uses:
+ * - Call `FlatListTextSerializer.setClipboardTextSerializer(editor)` to make copying use this plain text.
+ * - Call `FlatListTextSerializer.getText(editor)` to get that text (in place of `editor.getText()`).
+ */
+export class FlatListTextSerializer {
+  constructor(
+    /**
+     * Text serializers for leaf nodes, keyed by node name, as in `editor.getText()`.
+     */
+    readonly textSerializers: Record<string, TextSerializer> = {},
+  ) {}
+
+  private static readonly cache = new WeakMap<Schema, FlatListTextSerializer>();
+
+  /**
+   * Returns a default serializer for the given schema,
+   * using the `renderText` functions of its Tiptap extensions.
+   */
+  static fromSchema(schema: Schema): FlatListTextSerializer {
+    let serializer = this.cache.get(schema);
+    if (!serializer) {
+      serializer = new FlatListTextSerializer(
+        getTextSerializersFromSchema(schema),
+      );
+      this.cache.set(schema, serializer);
+    }
+    return serializer;
+  }
+
+  /**
+   * Sets the editor's clipboardTextSerializer prop, so that the `text/plain` clipboard content
+   * preserves the structure of flat lists.
+   */
+  static setClipboardTextSerializer(editor: Editor) {
+    const serializer = FlatListTextSerializer.fromSchema(editor.schema);
+    const counterDerivation = getCounterDerivation(editor);
+    editor.setOptions({
+      editorProps: {
+        clipboardTextSerializer: (slice: Slice) =>
+          serializer.serializeSlice(
+            counterDerivation
+              ? new Slice(
+                  deriveCounters(slice.content, counterDerivation),
+                  slice.openStart,
+                  slice.openEnd,
+                )
+              : slice,
+          ),
+      },
+    });
+  }
+
+  static getText(editor: Editor) {
+    // For FlatListOrdered's "decorations" counters mode, derive the counters that aren't stored in the doc.
+    const counterDerivation = getCounterDerivation(editor);
+    const doc = editor.state.doc;
+    return this.getDocText(
+      counterDerivation
+        ? doc.copy(deriveCounters(doc.content, counterDerivation))
+        : doc,
+    );
+  }
+
+  static getDocText(doc: Node) {
+    return FlatListTextSerializer.fromSchema(doc.type.schema).serializeFragment(
+      doc.content,
+    );
+  }
+
+  /**
+   * Serializes the given slice, e.g., the selection's content when copying.
+   *
+   * A slice within a single block (e.g. part of a list item's text) is serialized as just its text,
+   * without a list marker.
+   */
+  serializeSlice(slice: Slice): string {
+    const { content, openStart, openEnd } = slice;
+    if (
+      openStart > 0 &&
+      openEnd > 0 &&
+      content.childCount === 1 &&
+      content.firstChild!.isTextblock
+    ) {
+      return this.getInlineText(content.firstChild!);
+    }
+    return this.serializeFragment(content);
+  }
+
+  /**
+   * Serializes the given fragment, which may contain blocks or inline content.
+   */
+  serializeFragment(fragment: Fragment): string {
+    const firstChild = fragment.firstChild;
+    if (firstChild === null) return "";
+    // Wrap the fragment in a node, for use as the textSerializers' parent.
+    // NodeType.create does not check that the content is valid.
+    return this.serializeContent(
+      firstChild.type.schema.topNodeType.create(null, fragment),
+    );
+  }
+
+  /**
+   * Serializes the given node's content.
+   */
+  private serializeContent(parent: Node): string {
+    if (parent.firstChild?.isInline) return this.getInlineText(parent);
+
+    let text = "";
+    parent.forEach((node, offset, index) => {
+      if (index > 0) {
+        // Keep consecutive list items (and their continuations) on consecutive lines.
+        const previous = parent.child(index - 1);
+        const isListLine = (block: Node) =>
+          isFlatListNode(block) || isFlatListContinuation(block);
+        text += isListLine(previous) && isListLine(node) ? "\n" : "\n\n";
+      }
+
+      if (isFlatListNode(node)) {
+        const leading = "  ".repeat(node.attrs.indent ?? 0);
+        const marker = getTextMarker(node);
+        // Align lines after hard breaks with the item's content.
+        const continuation = "\n" + " ".repeat(leading.length + marker.length);
+        text +=
+          leading +
+          marker +
+          this.getInlineText(node).replace(/\n/g, continuation);
+      } else if (isFlatListContinuation(node)) {
+        // Indent like the content of a list item with the same indent.
+        const leading = "  ".repeat((node.attrs.indent ?? 0) + 1);
+        text +=
+          leading + this.getInlineText(node).replace(/\n/g, "\n" + leading);
+      } else if (node.isTextblock) {
+        text += this.getInlineText(node);
+      } else if (node.isLeaf) {
+        text +=
+          this.textSerializers[node.type.name]?.({
+            node,
+            pos: offset,
+            parent,
+            index,
+            range: { from: offset, to: offset + node.nodeSize },
+          }) ?? "";
+      } else {
+        // Recurse into nodes that could have flat-list-item descendants.
+        text += this.serializeContent(node);
+      }
+    });
+    return text;
+  }
+
+  /**
+   * Returns the text of the given node's inline content, like `editor.getText()`.
+   */
+  private getInlineText(node: Node): string {
+    return getTextBetween(
+      node,
+      { from: 0, to: node.content.size },
+      { textSerializers: this.textSerializers },
+    );
+  }
+}
+
+function getTextMarker(node: Node): string {
+  const listType = getListType(node);
+  const textMarker =
+    listType === null ? undefined : getFlatListTypeInfo(listType)?.textMarker;
+  if (textMarker) return textMarker(node);
+
+  switch (getListBehavior(node)) {
+    case "ordered":
+      return `${formatOrderedMarker(node.attrs.counter ?? 1, node.attrs.markerStyle ?? null)} `;
+    case "task":
+      return node.attrs.checked ? "[x] " : "[ ] ";
+    default:
+      return "- ";
+  }
+}